@@ -1,34 +1,148 @@
-import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { GoogleGenAI, LiveServerMessage, Modality } from '@google/genai';
-import { ConnectionState } from './types';
-import { createBlob, decode, decodeAudioData } from './utils/audio';
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
+import { Content } from '@google/genai';
+import { AppSettings, ConnectionState, ConversationActivity, ConversationMeta, ConversationMode, DetectedItem, InputMode, LogMessage, PackagingVerdict, PhotoAnalysis, ProductPackaging, QueuedPhoto, SessionLimitReason, SessionUsage, SortingVerdict, StationMatch } from './types';
+import { INPUT_MIME_TYPE, INPUT_SAMPLE_RATE } from './utils/audio';
 import { Visualizer } from './components/Visualizer';
+import { VerdictCard } from './components/VerdictCard';
+import { StationCard } from './components/StationCard';
+import { PhotoAnalysisCard } from './components/PhotoAnalysisCard';
+import { PackagingCard } from './components/PackagingCard';
+import { AnalyticsDashboard } from './components/AnalyticsDashboard';
+import { ChatThread } from './components/ChatThread';
+import { OfflinePanel } from './components/OfflinePanel';
+import { LiveSessionController } from './services/liveSessionController';
+import { createGeminiConnector } from './services/geminiConnector';
+import { LiveTokenError } from './services/liveToken';
+import { describeMicrophone, MicrophoneError, openMicrophone } from './utils/microphone';
+import { UsageMeter } from './services/usageMeter';
+import { SessionWatchdog } from './services/sessionWatchdog';
+import { UsageSummary } from './components/UsageSummary';
+import { AudioPlayback, OUTPUT_SAMPLE_RATE } from './services/audioPlayback';
+import { AudioCapture } from './services/audioCapture';
+import { SpeechGate } from './services/speechGate';
+import { saveConversation } from './services/historyStore';
+import { enqueuePhoto, listQueuedPhotos, removeQueuedPhoto } from './services/photoQueue';
+import { HistoryPanel } from './components/HistoryPanel';
+import { SettingsPanel } from './components/SettingsPanel';
+import { CameraStream } from './services/cameraStream';
+import { ImagePipelineError, PreparedImage, prepareImage } from './utils/imagePipeline';
+import { getCurrentLocation } from './utils/geolocation';
+import { buildHistoryTurns } from './utils/conversationContext';
+import { scanBarcode } from './utils/barcode';
+import { describePackaging, findProductPackaging, packagingVerdictFromTable } from './utils/packaging';
+import { recordAskedForDetails, recordSession, recordVerdict } from './utils/analytics';
+import { updateAnalytics } from './services/analyticsStore';
+import { useOnlineStatus } from './utils/network';
+import { LANGUAGE_LABELS, loadSettings, modelForMode, saveSettings } from './utils/settings';
+import { I18nContext, i18nForSetting } from './i18n';
 
-// Types
-type LogMessage = {
-  type: 'user' | 'model' | 'system';
-  text: string;
-  timestamp: number;
+const CAPTURE_CHUNK_SIZE = 1600; // 100 ms at 16 kHz, fine enough for the VAD hangover
+const LIVE_TOKEN_URL = process.env.LIVE_TOKEN_URL || '/api/live-token';
+const LIMIT_WARNING_MS = 30_000;
+
+// Sent to the model as a user turn so the warning is also spoken
+const SPOKEN_LIMIT_WARNINGS: Record<SessionLimitReason, string> = {
+  idle: 'Kerfisboð: Segðu notandanum í einni stuttri setningu að samtalinu ljúki eftir hálfa mínútu ef ekkert gerist.',
+  'max-length': 'Kerfisboð: Segðu notandanum í einni stuttri setningu að samtalið nái hámarkslengd eftir hálfa mínútu.',
 };
 
-const MODEL_NAME = 'gemini-2.5-flash-native-audio-preview-12-2025';
+const MIC_ICON = 'M19 11a7 7 0 01-7 7m0 0a7 7 0 01-7-7m7 7v4m0 0H8m4 0h4m-4-8a3 3 0 01-3-3V5a3 3 0 116 0v6a3 3 0 01-3 3z';
+const CHAT_ICON = 'M8 12h.01M12 12h.01M16 12h.01M21 12c0 4.418-4.03 8-9 8a9.863 9.863 0 01-4.255-.949L3 20l1.395-3.72C3.512 15.042 3 13.574 3 12c0-4.418 4.03-8 9-8s9 3.582 9 8z';
+
+const ANALYTICS_HASH = '#admin';
+
+// Sent with the photo in multi-item mode
+const MULTI_ITEM_PROMPT = 'Greindu alla hluti á þessari mynd og skráðu þá með report_photo_items.';
+// Sent with a photo taken offline; the user is no longer there to ask about it out loud
+const QUEUED_PHOTO_PROMPT = 'Þessi mynd var tekin án nettengingar. Segðu hvert hluturinn á henni fer.';
+
+// Sent after a barcode scan; a known product is only spoken, an unknown one goes with the photo
+const knownProductPrompt = (code: string, product: ProductPackaging) =>
+  `Kerfisboð: Notandinn skannaði strikamerki ${code}, ${product.name}. Umbúðir úr vöruskrá: ${describePackaging(product.components)}. Segðu stuttlega hvert hver hluti fer.`;
+const unknownProductPrompt = (code: string) =>
+  `Strikamerki ${code} er ekki í vöruskránni. Greindu umbúðirnar á myndinni og skráðu þær með report_packaging.`;
 
 export default function App() {
   const [connectionState, setConnectionState] = useState<ConnectionState>(ConnectionState.DISCONNECTED);
   const [logs, setLogs] = useState<LogMessage[]>([]);
-  const [volume, setVolume] = useState(0); // For visualizer (0-1)
+  const [inputAnalyser, setInputAnalyser] = useState<AnalyserNode | null>(null);
+  const [outputAnalyser, setOutputAnalyser] = useState<AnalyserNode | null>(null);
+  const [isModelSpeaking, setIsModelSpeaking] = useState(false);
+  const [awaitingReply, setAwaitingReply] = useState(false); // User finished a turn, no answer yet
   const [textInput, setTextInput] = useState("");
+  const [verdicts, setVerdicts] = useState<SortingVerdict[]>([]);
+  const [stationMatches, setStationMatches] = useState<StationMatch[]>([]);
+  const [photoAnalyses, setPhotoAnalyses] = useState<PhotoAnalysis[]>([]);
+  const [packagingVerdicts, setPackagingVerdicts] = useState<PackagingVerdict[]>([]);
+  // Everything found in photos or scanned, for the saved record; closing a card keeps them here
+  const [photoItems, setPhotoItems] = useState<DetectedItem[]>([]);
+  const [scannedPackaging, setScannedPackaging] = useState<PackagingVerdict[]>([]);
+  const [inputMode, setInputMode] = useState<InputMode>('vad');
+  const [conversationMode, setConversationMode] = useState<ConversationMode>('voice');
+  const [isTalking, setIsTalking] = useState(false); // Push-to-talk button held
+  const [showHistory, setShowHistory] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  // The operator dashboard lives at #admin so it can be bookmarked
+  const [showAnalytics, setShowAnalytics] = useState(() => window.location.hash === ANALYTICS_HASH);
+  const [settings, setSettings] = useState<AppSettings>(loadSettings);
+  const [isCameraOn, setIsCameraOn] = useState(false);
+  const [limitWarning, setLimitWarning] = useState<string | null>(null);
+  const [usageSummary, setUsageSummary] = useState<SessionUsage | null>(null);
+  const [queuedCount, setQueuedCount] = useState(0);
+  const isOnline = useOnlineStatus();
+
+  const i18n = useMemo(() => i18nForSetting(settings.uiLanguage, navigator.languages), [settings.uiLanguage]);
+  const { t } = i18n;
+  // Session callbacks outlive a render; they read the current language through this ref
+  const messagesRef = useRef(t);
+  messagesRef.current = t;
   
   // Refs for audio handling to avoid re-renders
-  const inputAudioContextRef = useRef<AudioContext | null>(null);
+  const captureRef = useRef<AudioCapture | null>(null);
+  const speechGateRef = useRef<SpeechGate | null>(null);
   const outputAudioContextRef = useRef<AudioContext | null>(null);
   const mediaStreamRef = useRef<MediaStream | null>(null);
-  const scriptProcessorRef = useRef<ScriptProcessorNode | null>(null);
-  const outputNodeRef = useRef<GainNode | null>(null);
-  const nextStartTimeRef = useRef<number>(0);
-  const sourcesRef = useRef<Set<AudioBufferSourceNode>>(new Set());
-  const sessionRef = useRef<any>(null); // Type 'any' used because Session type isn't exported easily yet
+  const liveRef = useRef<LiveSessionController | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const barcodeInputRef = useRef<HTMLInputElement>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const cameraRef = useRef<CameraStream | null>(null);
+  const usageMeterRef = useRef<UsageMeter | null>(null);
+  const watchdogRef = useRef<SessionWatchdog | null>(null);
+  // Current (or most recently ended) conversation; persisted whenever its logs or findings change
+  const conversationRef = useRef<ConversationMeta | null>(null);
+  // Queued photos still to be sent in the open session, one per model turn
+  const sendingQueueRef = useRef<QueuedPhoto[]>([]);
+  // Data URL of the photo sent since the model last finished a turn; boxes can only refer to it
+  const turnPhotoRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    document.documentElement.lang = i18n.language;
+  }, [i18n.language]);
+
+  useEffect(() => {
+    const onHashChange = () => setShowAnalytics(window.location.hash === ANALYTICS_HASH);
+    window.addEventListener('hashchange', onHashChange);
+    return () => window.removeEventListener('hashchange', onHashChange);
+  }, []);
+
+  useEffect(() => {
+    listQueuedPhotos()
+      .then(photos => setQueuedCount(photos.length))
+      .catch(error => console.error('Failed to read photo queue', error));
+  }, []);
+
+  // Without a network an idle app goes offline; a session that is open reconnects on its own
+  useEffect(() => {
+    const isIdle = connectionState === ConnectionState.DISCONNECTED || connectionState === ConnectionState.ERROR;
+    if (!isOnline && isIdle) {
+      setConnectionState(ConnectionState.OFFLINE);
+      addLog('system', messagesRef.current.log.wentOffline);
+    } else if (isOnline && connectionState === ConnectionState.OFFLINE) {
+      setConnectionState(ConnectionState.DISCONNECTED);
+      addLog('system', messagesRef.current.log.backOnline);
+    }
+  }, [isOnline, connectionState]);
 
   // Scroll to bottom of logs
   const logsEndRef = useRef<HTMLDivElement>(null);
@@ -36,15 +150,164 @@ export default function App() {
     logsEndRef.current?.scrollIntoView({ behavior: "smooth" });
   }, [logs]);
 
-  const addLog = (type: 'user' | 'model' | 'system', text: string) => {
-    setLogs(prev => [...prev, { type, text, timestamp: Date.now() }]);
+  useEffect(() => {
+    const meta = conversationRef.current;
+    if (!meta) return;
+
+    // Bounded at the end too: offline notices and lookups after a session are not part of it
+    const inConversation = (timestamp: number) => timestamp >= meta.startedAt && timestamp <= (meta.endedAt ?? Infinity);
+    const timer = setTimeout(() => {
+      saveConversation({
+        ...meta,
+        logs: logs.filter(log => inConversation(log.timestamp)),
+        verdicts: [...verdicts, ...photoItems].filter(verdict => inConversation(verdict.timestamp)),
+        packaging: scannedPackaging.filter(verdict => inConversation(verdict.timestamp)),
+      }).catch(error => console.error('Failed to save conversation', error));
+    }, 500);
+    return () => clearTimeout(timer);
+  }, [logs, verdicts, photoItems, scannedPackaging]);
+
+  const activity: ConversationActivity = connectionState !== ConnectionState.CONNECTED
+    ? 'idle'
+    : isModelSpeaking ? 'speaking' : awaitingReply ? 'thinking' : 'listening';
+
+  const handleSettingsChange = (next: AppSettings) => {
+    setSettings(next);
+    saveSettings(next);
   };
 
-  const cleanup = useCallback(() => {
-    // Close session
-    if (sessionRef.current) {
-      sessionRef.current = null;
+  const addLog = (type: 'user' | 'model' | 'system', text: string, imageUrl?: string) => {
+    setLogs(prev => [...prev, { type, text, timestamp: Date.now(), imageUrl }]);
+  };
+
+  // Grow the open transcript entry for this speaker, or start a new one
+  const appendTranscript = (type: 'user' | 'model', text: string) => {
+    setLogs(prev => {
+      const index = prev.findIndex(log => log.type === type && log.pending);
+      if (index === -1) {
+        return [...prev, { type, text, timestamp: Date.now(), pending: true }];
+      }
+      const next = [...prev];
+      next[index] = { ...next[index], text: next[index].text + text };
+      return next;
+    });
+  };
+
+  const finalizeTranscripts = () => {
+    setLogs(prev => prev.some(log => log.pending)
+      ? prev.map(log => log.pending ? { ...log, text: log.text.trim(), pending: false } : log)
+      : prev
+    );
+  };
+
+  // Anonymised counts for the operator dashboard
+  const countVerdicts = (list: SortingVerdict[]) => {
+    updateAnalytics((data, today) => list.reduce((next, verdict) => recordVerdict(next, verdict, settings.replyLanguage, today), data));
+  };
+
+  const addVerdict = (verdict: SortingVerdict) => {
+    setVerdicts(prev => [verdict, ...prev]);
+    countVerdicts([verdict]);
+  };
+
+  // Items come back for the photo sent this turn; without one (e.g. live camera) they are plain verdicts
+  const addPhotoItems = (items: DetectedItem[]) => {
+    const photo = turnPhotoRef.current;
+    if (!photo) {
+      items.forEach(addVerdict);
+      return;
+    }
+    setPhotoAnalyses(prev => [{ id: crypto.randomUUID(), imageDataUrl: photo, items, timestamp: Date.now() }, ...prev]);
+    setPhotoItems(prev => [...items, ...prev]);
+    countVerdicts(items);
+    addLog('system', messagesRef.current.log.photoItemsFound(items.length));
+  };
+
+  const addPackaging = (verdict: PackagingVerdict) => {
+    setPackagingVerdicts(prev => [verdict, ...prev]);
+    setScannedPackaging(prev => [verdict, ...prev]);
+  };
+
+  /**
+   * Sends a photo as a turn of its own with `prompt`, or without one as realtime input.
+   * Returns false when no connection is open to send it on.
+   */
+  const sendPhoto = (image: Pick<QueuedPhoto, 'mimeType' | 'data' | 'dataUrl'>, prompt: string | null): boolean => {
+    const session = liveRef.current?.session;
+    if (!session) return false;
+
+    const sent = prompt
+      ? session.sendClientContent({
+          turns: [{ role: 'user', parts: [{ inlineData: { mimeType: image.mimeType, data: image.data } }, { text: prompt }] }],
+          turnComplete: true,
+        })
+      : session.sendRealtimeInput({ media: { mimeType: image.mimeType, data: image.data } });
+    if (!sent) return false;
+
+    conversationRef.current?.images.push({ timestamp: Date.now(), mimeType: image.mimeType, dataUrl: image.dataUrl });
+    turnPhotoRef.current = image.dataUrl;
+    usageMeterRef.current?.addImage();
+    watchdogRef.current?.noteActivity();
+    setAwaitingReply(true);
+    return true;
+  };
+
+  // Keeps a photo that could not be sent until a session opens; it survives closing the app
+  const queuePhoto = async (image: PreparedImage, prompt: string) => {
+    await enqueuePhoto({
+      id: crypto.randomUUID(),
+      createdAt: Date.now(),
+      mimeType: image.mimeType,
+      data: image.data,
+      dataUrl: image.dataUrl,
+      thumbnailDataUrl: image.thumbnailDataUrl,
+      prompt,
+    });
+    setQueuedCount(count => count + 1);
+    addLog('system', messagesRef.current.log.photoQueued, image.thumbnailDataUrl);
+  };
+
+  // One photo per turn so answers do not cut each other off; the next goes when this one is answered
+  const sendNextQueuedPhoto = () => {
+    const photo = sendingQueueRef.current[0];
+    if (!photo || !sendPhoto(photo, photo.prompt)) return;
+
+    sendingQueueRef.current = sendingQueueRef.current.slice(1);
+    setQueuedCount(count => Math.max(0, count - 1));
+    addLog('system', messagesRef.current.log.queuedPhotoSent, photo.thumbnailDataUrl);
+    removeQueuedPhoto(photo.id).catch(error => console.error('Failed to remove queued photo', error));
+  };
+
+  // Called whenever a connection opens; the stored queue also holds photos taken while reconnecting
+  const flushPhotoQueue = async () => {
+    try {
+      const photos = await listQueuedPhotos();
+      if (photos.length === 0) return;
+      addLog('system', messagesRef.current.log.sendingQueued(photos.length));
+      sendingQueueRef.current = photos;
+      sendNextQueuedPhoto();
+    } catch (error) {
+      console.error('Failed to read photo queue', error);
+    }
+  };
+
+  // Closes the connection and releases microphone, camera and audio; the conversation itself stays open
+  const stopSession = useCallback(() => {
+    // Close session and stop playing audio
+    if (liveRef.current) {
+      liveRef.current.close();
+      liveRef.current = null;
+    }
+    // Unsent photos stay in the stored queue for the next session
+    sendingQueueRef.current = [];
+    turnPhotoRef.current = null;
+
+    // Stop camera
+    if (cameraRef.current) {
+      cameraRef.current.stop();
+      cameraRef.current = null;
     }
+    setIsCameraOn(false);
 
     // Stop microphone
     if (mediaStreamRef.current) {
@@ -52,247 +315,344 @@ export default function App() {
       mediaStreamRef.current = null;
     }
 
-    // Close contexts
-    if (inputAudioContextRef.current) {
-      inputAudioContextRef.current.close();
-      inputAudioContextRef.current = null;
+    // Stop capture and close contexts
+    if (captureRef.current) {
+      captureRef.current.stop();
+      captureRef.current = null;
     }
+    speechGateRef.current = null;
+
     if (outputAudioContextRef.current) {
       outputAudioContextRef.current.close();
       outputAudioContextRef.current = null;
     }
 
-    // Stop playing sources
-    sourcesRef.current.forEach(source => {
-      try { source.stop(); } catch (e) { /* ignore */ }
-    });
-    sourcesRef.current.clear();
-    
-    scriptProcessorRef.current = null;
-    outputNodeRef.current = null;
-    nextStartTimeRef.current = 0;
-    setVolume(0);
-    setTextInput("");
+    setInputAnalyser(null);
+    setOutputAnalyser(null);
+    setIsModelSpeaking(false);
+    setAwaitingReply(false);
+    setIsTalking(false);
+    finalizeTranscripts();
   }, []);
 
-  const handleConnect = async () => {
-    try {
-      setConnectionState(ConnectionState.CONNECTING);
-      addLog('system', 'Frumstilli hljóðbúnað...');
+  const cleanup = useCallback(() => {
+    stopSession();
 
-      // 1. Initialize Audio Contexts
-      const inputCtx = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
-      const outputCtx = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
-      
-      inputAudioContextRef.current = inputCtx;
-      outputAudioContextRef.current = outputCtx;
+    watchdogRef.current?.stop();
+    watchdogRef.current = null;
 
-      const outputNode = outputCtx.createGain();
-      outputNode.connect(outputCtx.destination);
-      outputNodeRef.current = outputNode;
+    const meter = usageMeterRef.current;
+    usageMeterRef.current = null;
+    meter?.setConnected(false);
+    const usage = meter?.snapshot();
+    if (usage && usage.connectedMs > 0) setUsageSummary(usage);
 
-      // 2. Get Microphone Stream
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-      mediaStreamRef.current = stream;
+    if (conversationRef.current && !conversationRef.current.endedAt) {
+      conversationRef.current.endedAt = Date.now();
+      conversationRef.current.usage = usage;
+    }
 
-      // 3. Initialize Gemini Client
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      
-      addLog('system', 'Tengist Gemini Live...');
-
-      // Calculate dynamic date context for the model
-      const now = new Date();
-      const dateOptions: Intl.DateTimeFormatOptions = { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' };
-      const timeOptions: Intl.DateTimeFormatOptions = { hour: '2-digit', minute: '2-digit' };
-      const dateString = now.toLocaleDateString('is-IS', dateOptions);
-      const timeString = now.toLocaleTimeString('is-IS', timeOptions);
-
-      // 4. Connect to Live API
-      const sessionPromise = ai.live.connect({
-        model: MODEL_NAME,
-        config: {
-          responseModalities: [Modality.AUDIO],
-          speechConfig: {
-            voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Puck' } }, // Friendly voice
-          },
-          systemInstruction: `Þú ert 'Litla Sorpa', snjall, hjálpsamur og vingjarnlegur sérfræðingur í flokkun sorps og endurvinnslu á Íslandi.
-          Hlutverk þitt er að aðstoða notendur við að flokka rusl í réttar tunnur hjá 'Litlu Gámaleigunni'.
+    setTextInput("");
+    setLimitWarning(null);
+  }, [stopSession]);
 
-          Í dag er ${dateString} og klukkan er ${timeString}.
+  // Disconnects sessions left open, warning out loud (or in the chat) and on screen first
+  const createWatchdog = () => new SessionWatchdog({
+    idleTimeoutMs: settings.idleTimeoutMinutes > 0 ? settings.idleTimeoutMinutes * 60_000 : null,
+    maxSessionMs: settings.maxSessionMinutes * 60_000,
+    warningMs: LIMIT_WARNING_MS,
+  }, {
+    onWarning: (reason, remainingMs) => {
+      const seconds = Math.round(remainingMs / 1000);
+      const { limits } = messagesRef.current;
+      const message = reason === 'idle' ? limits.idleWarning(seconds) : limits.maxLengthWarning(seconds);
+      setLimitWarning(message);
+      addLog('system', message);
+      liveRef.current?.session.sendClientContent({
+        turns: [{ role: 'user', parts: [{ text: SPOKEN_LIMIT_WARNINGS[reason] }] }],
+        turnComplete: true,
+      });
+    },
+    onWarningCleared: () => setLimitWarning(null),
+    onLimit: (reason) => {
+      // Logged first so the notice is saved with the conversation it ends
+      const { limits } = messagesRef.current;
+      addLog('system', reason === 'idle' ? limits.idleEnded : limits.maxLengthReached);
+      cleanup();
+      setConnectionState(ConnectionState.DISCONNECTED);
+    },
+  });
 
-          Þú hefur djúpa þekkingu á íslenskum hátíðisdögum og frídögum (sbr. dagarnir.is).
-          Vertu meðvitaður um að sorphirða og opnunartímar gámastöðva geta breyst á rauðum dögum (t.d. jólum, páskum, 17. júní, frídögum verslunarmanna).
-          Ef dagurinn í dag er frídagur eða nálægt stórhátíð, minntu notandann kurteisislega á að athuga opnunartíma ef við á.
+  /**
+   * Opens a session in the given mode. With `history` the current conversation goes on
+   * (a switch between voice and text); without it a new conversation starts.
+   */
+  const startSession = async (mode: ConversationMode, history?: Content[]) => {
+    try {
+      if (!history || !conversationRef.current) {
+        conversationRef.current = {
+          id: crypto.randomUUID(),
+          startedAt: Date.now(),
+          model: modelForMode(settings.model, mode),
+          images: [],
+        };
+        setUsageSummary(null);
+        usageMeterRef.current = new UsageMeter();
+        watchdogRef.current = createWatchdog();
+        updateAnalytics(data => recordSession(data, { reply: settings.replyLanguage, ui: i18n.language }));
+      }
+      const meter = usageMeterRef.current!;
+      const watchdog = watchdogRef.current!;
 
-          Reglur um samskipti:
-          1. Talaðu alltaf eðlilega og blæbrigðaríka íslensku.
-          2. Ef notandinn talar annað tungumál, svaraðu á því máli.
-          3. Vertu stuttorður og hnitmiðaður í svörum (talað mál), en vertu samt hlýlegur.
-          4. Notaðu "við" þegar þú talar um Litlu Gámaleiguna.
+      setConversationMode(mode);
+      setConnectionState(ConnectionState.CONNECTING);
 
-          Sjónræn greining:
-          Þú getur séð myndir sem notandinn sendir. Ef notandinn sendir mynd:
-          1. Greindu hlutinn á myndinni nákvæmlega.
-          2. Segðu notandanum í hvaða flokk hann fer (Plast, Pappi, Málmur, Gler, Lífrænt eða Almennt sorp).
-          3. Ef hluturinn þarf sérstaka meðhöndlun (t.d. skola fernur, taka tappa af), taktu það fram.
+      let playback: AudioPlayback | undefined;
+      let stream: MediaStream | undefined;
+      if (mode === 'voice') {
+        addLog('system', messagesRef.current.log.preparingAudio);
 
-          Gildir flokkar: Plast, Pappi, Málmur, Gler, Lífrænt, Almennt sorp.
-          Ef þú ert ekki viss, biddu um nánari upplýsingar.`,
-        },
-        callbacks: {
-          onopen: async () => {
-            addLog('system', 'Tenging komin! Byrjaðu að tala.');
-            setConnectionState(ConnectionState.CONNECTED);
-
-            // Start Audio Processing Pipeline
-            const source = inputCtx.createMediaStreamSource(stream);
-            const processor = inputCtx.createScriptProcessor(4096, 1, 1);
-            scriptProcessorRef.current = processor;
-
-            processor.onaudioprocess = (e) => {
-              const inputData = e.inputBuffer.getChannelData(0);
-              
-              // Simple volume meter for visualizer
-              let sum = 0;
-              for(let i=0; i<inputData.length; i++) sum += inputData[i] * inputData[i];
-              const rms = Math.sqrt(sum / inputData.length);
-              setVolume(v => Math.max(rms * 5, v * 0.9)); // Smooth decay
+        // 1. Initialize Output Audio Context (input runs at the device rate inside AudioCapture)
+        const outputCtx = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: OUTPUT_SAMPLE_RATE });
+        outputAudioContextRef.current = outputCtx;
 
-              const pcmBlob = createBlob(inputData);
-              
-              // Send data when session is ready
-              sessionPromise.then(session => {
-                session.sendRealtimeInput({ media: pcmBlob });
-              });
-            };
-
-            source.connect(processor);
-            processor.connect(inputCtx.destination);
-          },
-          onmessage: async (message: LiveServerMessage) => {
-            // Handle Audio Output
-            const base64Audio = message.serverContent?.modelTurn?.parts[0]?.inlineData?.data;
-            if (base64Audio && outputAudioContextRef.current && outputNodeRef.current) {
-              const ctx = outputAudioContextRef.current;
-              
-              // Sync start time
-              nextStartTimeRef.current = Math.max(nextStartTimeRef.current, ctx.currentTime);
-
-              const audioBuffer = await decodeAudioData(
-                decode(base64Audio),
-                ctx,
-                24000,
-                1
-              );
-
-              const source = ctx.createBufferSource();
-              source.buffer = audioBuffer;
-              source.connect(outputNodeRef.current);
-              
-              source.addEventListener('ended', () => {
-                sourcesRef.current.delete(source);
-              });
+        const outputNode = outputCtx.createGain();
+        outputNode.connect(outputCtx.destination);
 
-              source.start(nextStartTimeRef.current);
-              nextStartTimeRef.current += audioBuffer.duration;
-              sourcesRef.current.add(source);
-              
-              // Visualizer feedback for output
-              setVolume(0.5); // Pulse for AI talking
-            }
-
-            // Handle Turn Complete (Logging)
-            if (message.serverContent?.turnComplete) {
-              addLog('system', 'Svari lokið.');
-              setVolume(0); // Reset volume when done
-            }
-            
-            // Handle Interruption
-            if (message.serverContent?.interrupted) {
-               addLog('system', 'Gripið fram í.');
-               sourcesRef.current.forEach(s => s.stop());
-               sourcesRef.current.clear();
-               nextStartTimeRef.current = 0;
-            }
-          },
-          onclose: () => {
-            addLog('system', 'Tengingu lokað.');
-            setConnectionState(ConnectionState.DISCONNECTED);
-            cleanup();
-          },
-          onerror: (err) => {
-            console.error(err);
-            addLog('system', 'Villa kom upp. Skoðaðu console.');
-            setConnectionState(ConnectionState.ERROR);
-            cleanup();
+        // 2. Get Microphone Stream
+        stream = await openMicrophone(settings);
+        mediaStreamRef.current = stream;
+        addLog('system', messagesRef.current.log.microphone(describeMicrophone(stream, messagesRef.current.microphone)));
+
+        playback = new AudioPlayback(outputCtx, outputNode);
+        playback.subscribe(state => {
+          setIsModelSpeaking(state === 'playing');
+          if (state === 'playing') setAwaitingReply(false);
+        });
+        setOutputAnalyser(playback.analyser);
+      }
+
+      addLog('system', messagesRef.current.log.connecting);
+
+      // 3. Connect to Live API, resuming the previous session after a dropped connection
+      const live = new LiveSessionController({
+        connector: createGeminiConnector(LIVE_TOKEN_URL, settings, mode),
+        audioOutput: playback,
+        getLocation: settings.useLocation ? () => getCurrentLocation() : undefined,
+      }, {
+        onStateChange: (state) => {
+          setConnectionState(state);
+          meter.setConnected(state === ConnectionState.CONNECTED);
+        },
+        onReconnectScheduled: ({ attempt }) => {
+          addLog('system', messagesRef.current.log.reconnecting(attempt));
+        },
+        onGiveUp: () => {
+          addLog('system', messagesRef.current.log.gaveUp);
+          cleanup();
+        },
+        onOpen: ({ reconnected }) => {
+          if (reconnected) {
+            addLog('system', messagesRef.current.log.reconnected);
+            flushPhotoQueue();
+            return;
           }
-        }
+          // A resumed session remembers on its own; a fresh one after a switch is told the story so far
+          if (history && history.length > 0) {
+            live.session.sendClientContent({ turns: history, turnComplete: false });
+          }
+          addLog('system', mode === 'voice' ? messagesRef.current.log.connected : messagesRef.current.log.connectedText);
+          watchdog.start();
+          flushPhotoQueue();
+        },
+        onVerdict: addVerdict,
+        onStations: setStationMatches,
+        onPhotoItems: addPhotoItems,
+        onPackaging: addPackaging,
+        onUncertain: (itemName) => updateAnalytics((data, today) => recordAskedForDetails(data, itemName, settings.replyLanguage, today)),
+        onTranscript: (speaker, text) => {
+          if (speaker === 'model' && mode === 'text') setAwaitingReply(false);
+          appendTranscript(speaker, text);
+        },
+        onModelAudio: (seconds) => meter.addAudioReceived(seconds),
+        onUsageMetadata: (usage) => meter.addUsageMetadata(usage),
+        onTurnComplete: () => {
+          setAwaitingReply(false);
+          finalizeTranscripts();
+          addLog('system', messagesRef.current.log.turnComplete);
+          turnPhotoRef.current = null;
+          sendNextQueuedPhoto();
+        },
+        onInterrupted: () => {
+          setAwaitingReply(false);
+          finalizeTranscripts();
+          addLog('system', messagesRef.current.log.interrupted);
+        },
       });
+      const session = live.session;
 
       // Save session ref
-      sessionRef.current = await sessionPromise;
+      liveRef.current = live;
+
+      if (stream) {
+        // 4. Gate microphone audio through the VAD or push-to-talk button
+        const speechGate = new SpeechGate({
+          // Chunks arrive base64-encoded from the capture worklet
+          sendAudio: (data) => {
+            meter.addAudioSent(CAPTURE_CHUNK_SIZE / INPUT_SAMPLE_RATE);
+            session.sendAudio({ data, mimeType: INPUT_MIME_TYPE });
+          },
+          sendActivityStart: () => {
+            watchdog.noteActivity();
+            setAwaitingReply(false);
+            session.sendActivityStart();
+          },
+          sendActivityEnd: () => {
+            setAwaitingReply(true);
+            session.sendActivityEnd();
+          },
+        }, { mode: inputMode });
+        speechGateRef.current = speechGate;
+
+        // 5. Start microphone capture; audio recorded before the socket opens is buffered by the session
+        const chunkDurationMs = (CAPTURE_CHUNK_SIZE / INPUT_SAMPLE_RATE) * 1000;
+        const capture = await AudioCapture.start(stream, {
+          chunkSize: CAPTURE_CHUNK_SIZE,
+          onChunk: ({ data, rms }) => speechGate.processChunk(data, rms, chunkDurationMs),
+        });
+        captureRef.current = capture;
+        setInputAnalyser(capture.analyser);
+      }
+
+      await live.start();
 
     } catch (error) {
       console.error('Connection failed', error);
-      addLog('system', 'Tenging mistókst.');
+      const { errors, log } = messagesRef.current;
+      addLog('system', error instanceof LiveTokenError ? errors.liveToken[error.code]
+        : error instanceof MicrophoneError ? errors.microphone[error.code]
+        : log.connectFailed);
       setConnectionState(ConnectionState.ERROR);
       cleanup();
     }
   };
 
+  const handleConnect = () => startSession(conversationMode);
+
   const handleDisconnect = () => {
+    addLog('system', t.log.userEnded);
     cleanup();
     setConnectionState(ConnectionState.DISCONNECTED);
-    addLog('system', 'Notandi endaði setu.');
+  };
+
+  // Reopens the session in the other mode and hands it the thread so far
+  const handleSwitchMode = () => {
+    const next: ConversationMode = conversationMode === 'voice' ? 'text' : 'voice';
+    const meta = conversationRef.current;
+    if (!liveRef.current || !meta) {
+      setConversationMode(next);
+      return;
+    }
+
+    const history = buildHistoryTurns(logs.filter(log => log.timestamp >= meta.startedAt));
+    stopSession();
+    addLog('system', next === 'text' ? t.log.switchedToText : t.log.switchedToVoice);
+    startSession(next, history);
   };
 
   const handleImageUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
-    if (!file || !sessionRef.current) return;
+    if (!file) return;
 
     try {
-      addLog('system', 'Sendi mynd...');
-      
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        const result = e.target?.result as string;
-        // Remove data URL prefix (e.g. "data:image/jpeg;base64,")
-        const base64Data = result.split(',')[1];
-        
-        // Send image to session
-        sessionRef.current.sendRealtimeInput({
-          media: {
-            mimeType: file.type,
-            data: base64Data
-          }
-        });
-        
-        addLog('user', 'Sendi mynd til greiningar');
-        // Reset input
-        if (fileInputRef.current) fileInputRef.current.value = '';
-      };
-      reader.readAsDataURL(file);
-      
+      addLog('system', t.log.preparingImage);
+
+      // Resize, strip metadata and re-encode before sending over mobile data
+      const image = await prepareImage(file);
+
+      // In multi-item mode the photo goes as a turn of its own so the request arrives with it
+      const prompt = settings.multiItemPhotos ? MULTI_ITEM_PROMPT : null;
+      if (sendPhoto(image, prompt)) {
+        addLog('system', t.log.imageSent(Math.round(image.bytes / 1024)), image.thumbnailDataUrl);
+      } else {
+        await queuePhoto(image, prompt ?? QUEUED_PHOTO_PROMPT);
+      }
     } catch (error) {
       console.error("Image upload failed", error);
-      addLog('system', 'Mistókst að senda mynd.');
+      addLog('system', error instanceof ImagePipelineError ? t.errors.image[error.code] : t.log.imageFailed);
+    } finally {
+      // Reset input
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  // Reads the barcode locally; the model only sees the photo when the product is not in the table.
+  // Offline a known product is answered from the table and an unknown one is queued.
+  const scanProduct = async (file: Blob) => {
+    try {
+      addLog('system', t.log.scanningBarcode);
+      const code = await scanBarcode(file);
+      if (!code) {
+        addLog('system', t.log.barcodeNotFound);
+        return;
+      }
+      addLog('system', t.log.barcodeScanned(code));
+
+      const product = findProductPackaging(code);
+      if (product) {
+        addPackaging(packagingVerdictFromTable(product));
+        const sent = liveRef.current?.session.sendClientContent({
+          turns: [{ role: 'user', parts: [{ text: knownProductPrompt(code, product) }] }],
+          turnComplete: true,
+        });
+        if (sent) {
+          watchdogRef.current?.noteActivity();
+          setAwaitingReply(true);
+        }
+        return;
+      }
+
+      addLog('system', t.log.barcodeUnknown);
+      const image = await prepareImage(file);
+      if (!sendPhoto(image, unknownProductPrompt(code))) {
+        await queuePhoto(image, unknownProductPrompt(code));
+      }
+    } catch (error) {
+      console.error('Barcode scan failed', error);
+      addLog('system', error instanceof ImagePipelineError ? t.errors.image[error.code] : t.log.imageFailed);
+    }
+  };
+
+  const handleBarcodeUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) await scanProduct(file);
+    if (barcodeInputRef.current) barcodeInputRef.current.value = '';
+  };
+
+  // With the camera on the current frame is scanned; otherwise a photo is taken or picked
+  const handleScanBarcode = async () => {
+    const frame = await cameraRef.current?.grabFrame();
+    if (frame) {
+      await scanProduct(frame);
+    } else {
+      barcodeInputRef.current?.click();
     }
   };
 
   const handleSendText = () => {
-    if (!textInput.trim() || !sessionRef.current) return;
+    if (!textInput.trim() || !liveRef.current) return;
 
     const text = textInput.trim();
     addLog('user', text);
 
-    sessionRef.current.sendRealtimeInput({
-      content: {
-        role: 'user',
-        parts: [{ text: text }]
-      }
+    liveRef.current.session.sendClientContent({
+      turns: [{ role: 'user', parts: [{ text }] }],
+      turnComplete: true,
     });
 
     setTextInput("");
+    setAwaitingReply(true);
+    watchdogRef.current?.noteActivity();
   };
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
@@ -301,141 +661,407 @@ export default function App() {
     }
   };
 
+  const handleToggleCamera = async () => {
+    if (cameraRef.current) {
+      cameraRef.current.stop();
+      cameraRef.current = null;
+      setIsCameraOn(false);
+      addLog('system', t.log.cameraOff);
+      return;
+    }
+    if (!videoRef.current || !liveRef.current) return;
+
+    try {
+      const live = liveRef.current;
+      const camera = await CameraStream.start(videoRef.current, {
+        frameRate: settings.cameraFrameRate,
+        onFrame: (frame) => {
+          if (live.session.sendRealtimeInput({ video: frame })) usageMeterRef.current?.addCameraFrame();
+        },
+      });
+      // The session may have ended while the permission prompt was open
+      if (liveRef.current !== live) {
+        camera.stop();
+        return;
+      }
+      cameraRef.current = camera;
+      watchdogRef.current?.noteActivity();
+      setIsCameraOn(true);
+      addLog('system', t.log.cameraOn);
+    } catch (error) {
+      console.error('Camera failed', error);
+      addLog('system', t.log.cameraFailed);
+    }
+  };
+
+  const handleTalkStart = () => {
+    speechGateRef.current?.pressTalk();
+    setIsTalking(true);
+  };
+
+  const handleTalkEnd = () => {
+    speechGateRef.current?.releaseTalk();
+    setIsTalking(false);
+  };
+
   const triggerFileUpload = () => {
     fileInputRef.current?.click();
   };
 
   return (
-    <div className="min-h-screen bg-slate-900 flex flex-col items-center justify-center p-4 relative overflow-hidden">
+    <I18nContext.Provider value={i18n}>
+      <div className="min-h-screen bg-slate-900 flex flex-col items-center justify-center p-4 relative overflow-hidden">
       
-      {/* Background Decor */}
-      <div className="absolute top-0 left-0 w-full h-full overflow-hidden pointer-events-none opacity-20">
-        <div className="absolute top-1/4 left-1/4 w-96 h-96 bg-blue-500 rounded-full blur-3xl filter mix-blend-multiply animate-pulse"></div>
-        <div className="absolute bottom-1/4 right-1/4 w-96 h-96 bg-green-500 rounded-full blur-3xl filter mix-blend-multiply animate-pulse" style={{ animationDelay: '2s'}}></div>
-      </div>
+        {/* Background Decor */}
+        <div className="absolute top-0 left-0 w-full h-full overflow-hidden pointer-events-none opacity-20">
+          <div className="absolute top-1/4 left-1/4 w-96 h-96 bg-blue-500 rounded-full blur-3xl filter mix-blend-multiply animate-pulse"></div>
+          <div className="absolute bottom-1/4 right-1/4 w-96 h-96 bg-green-500 rounded-full blur-3xl filter mix-blend-multiply animate-pulse" style={{ animationDelay: '2s'}}></div>
+        </div>
 
-      <main className="relative z-10 w-full max-w-lg bg-slate-800/50 backdrop-blur-xl border border-slate-700 rounded-3xl p-8 shadow-2xl flex flex-col gap-6">
+        <main className="relative z-10 w-full max-w-lg bg-slate-800/50 backdrop-blur-xl border border-slate-700 rounded-3xl p-8 shadow-2xl flex flex-col gap-6">
         
-        {/* Header */}
-        <div className="text-center space-y-2">
-          <div className="inline-flex items-center gap-2 px-3 py-1 rounded-full bg-slate-700/50 border border-slate-600 text-xs font-medium text-slate-300">
-            <span className={`w-2 h-2 rounded-full ${connectionState === ConnectionState.CONNECTED ? 'bg-green-400 animate-pulse' : 'bg-slate-400'}`}></span>
-            {connectionState === ConnectionState.CONNECTED ? 'Bein tenging virk' : 'Tilbúin að tengjast'}
+          {/* Settings */}
+          <button
+            onClick={() => setShowSettings(true)}
+            className="absolute top-4 left-4 p-2 rounded-full text-slate-400 hover:text-white hover:bg-slate-700/50 transition-all"
+            title={t.app.settings}
+          >
+            <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" />
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+            </svg>
+          </button>
+
+          {/* History */}
+          <button
+            onClick={() => setShowHistory(true)}
+            className="absolute top-4 right-4 p-2 rounded-full text-slate-400 hover:text-white hover:bg-slate-700/50 transition-all"
+            title={t.app.history}
+          >
+            <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+            </svg>
+          </button>
+
+          {/* Header */}
+          <div className="text-center space-y-2">
+            <div className="inline-flex items-center gap-2 px-3 py-1 rounded-full bg-slate-700/50 border border-slate-600 text-xs font-medium text-slate-300">
+              <span className={`w-2 h-2 rounded-full ${
+                connectionState === ConnectionState.CONNECTED ? 'bg-green-400 animate-pulse'
+                  : connectionState === ConnectionState.RECONNECTING ? 'bg-amber-400 animate-pulse'
+                  : connectionState === ConnectionState.OFFLINE ? 'bg-red-400'
+                  : 'bg-slate-400'
+              }`}></span>
+              {connectionState === ConnectionState.CONNECTED ? t.status.connected
+                : connectionState === ConnectionState.RECONNECTING ? t.status.reconnecting
+                : connectionState === ConnectionState.OFFLINE ? t.status.offline
+                : t.status.ready}
+            </div>
+            <h1 className="text-3xl font-bold text-white tracking-tight">{t.app.title}</h1>
+            <p className="text-slate-400">{t.app.tagline}</p>
+            <p className="text-xs text-slate-500 font-mono">
+              {settings.voiceName} · {LANGUAGE_LABELS[settings.replyLanguage]} · {modelForMode(settings.model, conversationMode)}
+            </p>
           </div>
-          <h1 className="text-3xl font-bold text-white tracking-tight">Litla Sorpa</h1>
-          <p className="text-slate-400">Spurðu mig hvar á að henda ruslinu.</p>
-        </div>
 
-        {/* Visualizer Area */}
-        <div className="relative h-64 w-full flex items-center justify-center bg-slate-900/50 rounded-2xl border border-slate-700/50 overflow-hidden shadow-inner">
-          <Visualizer 
-            isPlaying={connectionState === ConnectionState.CONNECTED} 
-            volume={volume} 
-          />
+          {/* Visualizer Area, or the chat thread in text mode */}
+          <div className={`relative ${conversationMode === 'text' ? 'h-80' : 'h-64'} w-full flex items-center justify-center bg-slate-900/50 rounded-2xl border border-slate-700/50 overflow-hidden shadow-inner`}>
+            {conversationMode === 'text' ? (
+              <ChatThread logs={logs} isThinking={awaitingReply} />
+            ) : (
+              <Visualizer
+                activity={activity}
+                inputAnalyser={inputAnalyser}
+                outputAnalyser={outputAnalyser}
+              />
+            )}
+
+            {/* Live camera preview */}
+            <video
+              ref={videoRef}
+              className={`absolute inset-0 w-full h-full object-cover ${isCameraOn ? '' : 'hidden'}`}
+              playsInline
+              muted
+            />
           
-          {connectionState !== ConnectionState.CONNECTED && (
-            <div className="absolute inset-0 flex items-center justify-center text-slate-500 font-mono text-sm">
-              Smelltu á 'Byrja samtal'...
+            {connectionState !== ConnectionState.CONNECTED && conversationMode === 'voice' && (
+              <div className="absolute inset-0 flex items-center justify-center px-6 text-center text-slate-500 font-mono text-sm">
+                {connectionState === ConnectionState.RECONNECTING ? t.status.stageReconnecting
+                  : connectionState === ConnectionState.OFFLINE ? t.status.stageOffline
+                  : t.status.stageIdle}
+              </div>
+            )}
+          </div>
+
+          {/* Session limit warning */}
+          {limitWarning && (
+            <div role="alert" className="px-4 py-3 rounded-2xl border border-amber-500/40 bg-amber-500/10 text-amber-200 text-sm">
+              {limitWarning}
             </div>
           )}
-        </div>
 
-        {/* Controls */}
-        <div className="flex justify-center gap-4">
-          {connectionState === ConnectionState.DISCONNECTED || connectionState === ConnectionState.ERROR ? (
-            <button
-              onClick={handleConnect}
-              className="group relative inline-flex items-center justify-center px-8 py-4 font-semibold text-white transition-all duration-200 bg-blue-600 rounded-full hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-600 focus:ring-offset-slate-900"
-            >
-              <span className="absolute inset-0 w-full h-full -mt-1 rounded-lg opacity-30 bg-gradient-to-b from-transparent via-transparent to-black"></span>
-              <span className="relative flex items-center gap-3">
-                <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 11a7 7 0 01-7 7m0 0a7 7 0 01-7-7m7 7v4m0 0H8m4 0h4m-4-8a3 3 0 01-3-3V5a3 3 0 116 0v6a3 3 0 01-3 3z" />
-                </svg>
-                Byrja samtal
-              </span>
-            </button>
-          ) : (
-            <>
+          {/* Usage of the last session */}
+          {usageSummary && connectionState !== ConnectionState.CONNECTED && (
+            <UsageSummary usage={usageSummary} onClose={() => setUsageSummary(null)} />
+          )}
+
+          {/* Items found in photos */}
+          {photoAnalyses.map(analysis => (
+            <PhotoAnalysisCard
+              key={analysis.id}
+              analysis={analysis}
+              onClose={() => setPhotoAnalyses(prev => prev.filter(a => a.id !== analysis.id))}
+            />
+          ))}
+
+          {/* Scanned products */}
+          {packagingVerdicts.map(verdict => (
+            <PackagingCard
+              key={verdict.id}
+              verdict={verdict}
+              onClose={() => setPackagingVerdicts(prev => prev.filter(v => v.id !== verdict.id))}
+            />
+          ))}
+
+          {/* Sorting Verdicts */}
+          {verdicts.length > 0 && (
+            <div className="flex flex-col gap-3 max-h-72 overflow-y-auto">
+              {verdicts.map(verdict => (
+                <VerdictCard key={verdict.id} verdict={verdict} />
+              ))}
+            </div>
+          )}
+
+          {/* Recycling Stations */}
+          {stationMatches.length > 0 && (
+            <div className="flex flex-col gap-3">
+              <div className="flex items-center justify-between">
+                <span className="text-xs text-slate-500 uppercase tracking-wider">{t.stations.heading}</span>
+                <button onClick={() => setStationMatches([])} className="text-xs text-slate-500 hover:text-slate-300">{t.stations.hide}</button>
+              </div>
+              {stationMatches.map(match => (
+                <StationCard key={match.station.id} match={match} />
+              ))}
+            </div>
+          )}
+
+          {/* Controls */}
+          <div className="flex justify-center gap-4">
+            {connectionState === ConnectionState.OFFLINE ? (
+              <OfflinePanel
+                queuedCount={queuedCount}
+                onTakePhoto={triggerFileUpload}
+                onScanBarcode={handleScanBarcode}
+              />
+            ) : connectionState === ConnectionState.DISCONNECTED || connectionState === ConnectionState.ERROR ? (
               <button
-                onClick={handleDisconnect}
-                className="inline-flex items-center justify-center px-6 py-4 font-semibold text-white transition-all duration-200 bg-red-500 rounded-full hover:bg-red-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-600 focus:ring-offset-slate-900 shadow-lg shadow-red-500/30"
+                onClick={handleConnect}
+                className="group relative inline-flex items-center justify-center px-8 py-4 font-semibold text-white transition-all duration-200 bg-blue-600 rounded-full hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-600 focus:ring-offset-slate-900"
               >
-                <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
-                </svg>
+                <span className="absolute inset-0 w-full h-full -mt-1 rounded-lg opacity-30 bg-gradient-to-b from-transparent via-transparent to-black"></span>
+                <span className="relative flex items-center gap-3">
+                  <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d={conversationMode === 'voice' ? MIC_ICON : CHAT_ICON} />
+                  </svg>
+                  {conversationMode === 'voice' ? t.controls.start : t.controls.startChat}
+                </span>
               </button>
+            ) : (
+              <>
+                <button
+                  onClick={handleDisconnect}
+                  className="inline-flex items-center justify-center px-6 py-4 font-semibold text-white transition-all duration-200 bg-red-500 rounded-full hover:bg-red-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-600 focus:ring-offset-slate-900 shadow-lg shadow-red-500/30"
+                  title={t.controls.end}
+                >
+                  <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                </button>
+
+                <button
+                  onClick={handleSwitchMode}
+                  disabled={connectionState !== ConnectionState.CONNECTED}
+                  className="inline-flex items-center justify-center px-6 py-4 font-semibold text-white transition-all duration-200 bg-slate-700 rounded-full hover:bg-slate-600 disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-slate-500 focus:ring-offset-slate-900 shadow-lg"
+                  title={conversationMode === 'voice' ? t.controls.switchToText : t.controls.switchToVoice}
+                >
+                  <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d={conversationMode === 'voice' ? CHAT_ICON : MIC_ICON} />
+                  </svg>
+                </button>
+
+                {conversationMode === 'voice' && inputMode === 'push-to-talk' && (
+                  <button
+                    onPointerDown={handleTalkStart}
+                    onPointerUp={handleTalkEnd}
+                    onPointerLeave={handleTalkEnd}
+                    onPointerCancel={handleTalkEnd}
+                    onContextMenu={(e) => e.preventDefault()}
+                    className={`inline-flex items-center justify-center gap-2 px-6 py-4 font-semibold text-white transition-all duration-200 rounded-full select-none touch-none focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-600 focus:ring-offset-slate-900 shadow-lg ${isTalking ? 'bg-green-500 shadow-green-500/30 scale-105' : 'bg-blue-600 hover:bg-blue-700'}`}
+                    title={t.controls.holdToTalkHint}
+                  >
+                    <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d={MIC_ICON} />
+                    </svg>
+                    {isTalking ? t.controls.listening : t.controls.holdToTalk}
+                  </button>
+                )}
               
-              <button
-                onClick={triggerFileUpload}
-                className="inline-flex items-center justify-center px-6 py-4 font-semibold text-white transition-all duration-200 bg-slate-700 rounded-full hover:bg-slate-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-slate-500 focus:ring-offset-slate-900 shadow-lg"
-                title="Senda mynd"
-              >
-                <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 9a2 2 0 012-2h.93a2 2 0 001.664-.89l.812-1.22A2 2 0 0110.07 4h3.86a2 2 0 011.664.89l.812 1.22A2 2 0 0018.07 7H19a2 2 0 012 2v9a2 2 0 01-2 2H5a2 2 0 01-2-2V9z" />
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 13a3 3 0 11-6 0 3 3 0 016 0z" />
-                </svg>
-              </button>
+                <button
+                  onClick={triggerFileUpload}
+                  className="inline-flex items-center justify-center px-6 py-4 font-semibold text-white transition-all duration-200 bg-slate-700 rounded-full hover:bg-slate-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-slate-500 focus:ring-offset-slate-900 shadow-lg"
+                  title={t.controls.sendPhoto}
+                >
+                  <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 9a2 2 0 012-2h.93a2 2 0 001.664-.89l.812-1.22A2 2 0 0110.07 4h3.86a2 2 0 011.664.89l.812 1.22A2 2 0 0018.07 7H19a2 2 0 012 2v9a2 2 0 01-2 2H5a2 2 0 01-2-2V9z" />
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 13a3 3 0 11-6 0 3 3 0 016 0z" />
+                  </svg>
+                </button>
               
-              <input 
-                type="file" 
-                ref={fileInputRef} 
-                onChange={handleImageUpload} 
-                className="hidden" 
-                accept="image/*"
-                capture="environment"
-              />
-            </>
-          )}
-        </div>
+                <button
+                  onClick={handleScanBarcode}
+                  className="inline-flex items-center justify-center px-6 py-4 font-semibold text-white transition-all duration-200 bg-slate-700 rounded-full hover:bg-slate-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-slate-500 focus:ring-offset-slate-900 shadow-lg"
+                  title={t.controls.scanBarcode}
+                >
+                  <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 5v14M7 5v14M10 5v14M14 5v14M16 5v14M20 5v14" />
+                  </svg>
+                </button>
 
-        {/* Text Input - Only visible when connected */}
-        {connectionState === ConnectionState.CONNECTED && (
-          <div className="flex gap-2 w-full animate-fade-in-up">
+                {conversationMode === 'voice' && (
+                <button
+                  onClick={handleToggleCamera}
+                  className={`inline-flex items-center justify-center px-6 py-4 font-semibold text-white transition-all duration-200 rounded-full focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-slate-500 focus:ring-offset-slate-900 shadow-lg ${isCameraOn ? 'bg-green-600 hover:bg-green-700' : 'bg-slate-700 hover:bg-slate-600'}`}
+                  title={isCameraOn ? t.controls.cameraOff : t.controls.cameraOn}
+                >
+                  <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 10l4.553-2.276A1 1 0 0121 8.618v6.764a1 1 0 01-1.447.894L15 14M5 18h8a2 2 0 002-2V8a2 2 0 00-2-2H5a2 2 0 00-2 2v8a2 2 0 002 2z" />
+                  </svg>
+                </button>
+                )}
+              </>
+            )}
+
+            {/* Also used by the offline panel, so always mounted */}
+            <input 
+              type="file" 
+              ref={fileInputRef} 
+              onChange={handleImageUpload} 
+              className="hidden" 
+              accept="image/*"
+              capture="environment"
+            />
             <input
-              type="text"
-              value={textInput}
-              onChange={(e) => setTextInput(e.target.value)}
-              onKeyDown={handleKeyDown}
-              placeholder="Skrifaðu skilaboð..."
-              className="flex-1 bg-slate-700/50 border border-slate-600 rounded-full px-4 py-3 text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+              type="file"
+              ref={barcodeInputRef}
+              onChange={handleBarcodeUpload}
+              className="hidden"
+              accept="image/*"
+              capture="environment"
             />
-            <button
-              onClick={handleSendText}
-              disabled={!textInput.trim()}
-              className="bg-blue-600 text-white rounded-full w-12 h-12 flex items-center justify-center hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all shadow-lg hover:shadow-blue-500/25"
-            >
-              <svg className="w-5 h-5 ml-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8" />
-              </svg>
-            </button>
           </div>
-        )}
 
-        {/* Hints */}
-        {connectionState !== ConnectionState.CONNECTED && (
-          <div className="grid grid-cols-2 gap-3">
-            <div className="bg-slate-700/30 p-3 rounded-xl border border-slate-700/50 text-center">
-              <span className="block text-xs text-slate-500 uppercase tracking-wider mb-1">Prófaðu að spyrja</span>
-              <p className="text-sm text-slate-300">"Hvert fer þessi pítsukassi?"</p>
+          {/* Conversation and Input Mode - chosen before connecting */}
+          {(connectionState === ConnectionState.DISCONNECTED || connectionState === ConnectionState.ERROR) && (
+            <div className="flex flex-col items-center gap-2">
+              <div className="inline-flex p-1 rounded-full bg-slate-700/50 border border-slate-600 text-sm">
+                {(['voice', 'text'] as ConversationMode[]).map(mode => (
+                  <button
+                    key={mode}
+                    onClick={() => setConversationMode(mode)}
+                    className={`px-4 py-2 rounded-full transition-all ${conversationMode === mode ? 'bg-blue-600 text-white' : 'text-slate-300 hover:text-white'}`}
+                  >
+                    {t.controls.conversationModes[mode]}
+                  </button>
+                ))}
+              </div>
+              {conversationMode === 'voice' && (
+                <div className="inline-flex p-1 rounded-full bg-slate-700/50 border border-slate-600 text-sm">
+                  {(['vad', 'push-to-talk'] as InputMode[]).map(mode => (
+                    <button
+                      key={mode}
+                      onClick={() => setInputMode(mode)}
+                      className={`px-4 py-2 rounded-full transition-all ${inputMode === mode ? 'bg-blue-600 text-white' : 'text-slate-300 hover:text-white'}`}
+                    >
+                      {t.controls.inputModes[mode]}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Text Input - Only visible when connected */}
+          {connectionState === ConnectionState.CONNECTED && (
+            <div className="flex gap-2 w-full animate-fade-in-up">
+              <input
+                type="text"
+                value={textInput}
+                onChange={(e) => setTextInput(e.target.value)}
+                onKeyDown={handleKeyDown}
+                placeholder={t.controls.messagePlaceholder}
+                className="flex-1 bg-slate-700/50 border border-slate-600 rounded-full px-4 py-3 text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+              />
+              <button
+                onClick={handleSendText}
+                disabled={!textInput.trim()}
+                className="bg-blue-600 text-white rounded-full w-12 h-12 flex items-center justify-center hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all shadow-lg hover:shadow-blue-500/25"
+                title={t.controls.send}
+              >
+                <svg className="w-5 h-5 ml-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8" />
+                </svg>
+              </button>
             </div>
-            <div className="bg-slate-700/30 p-3 rounded-xl border border-slate-700/50 text-center">
-              <span className="block text-xs text-slate-500 uppercase tracking-wider mb-1">Prófaðu að spyrja</span>
-              <p className="text-sm text-slate-300">"Er hægt að endurvinna gler?"</p>
+          )}
+
+          {/* Hints */}
+          {(connectionState === ConnectionState.DISCONNECTED || connectionState === ConnectionState.ERROR) && (
+            <div className="grid grid-cols-2 gap-3">
+              {t.hints.examples.map(example => (
+                <div key={example} className="bg-slate-700/30 p-3 rounded-xl border border-slate-700/50 text-center">
+                  <span className="block text-xs text-slate-500 uppercase tracking-wider mb-1">{t.hints.heading}</span>
+                  <p className="text-sm text-slate-300">{example}</p>
+                </div>
+              ))}
             </div>
-          </div>
+          )}
+        </main>
+
+        {showHistory && <HistoryPanel onClose={() => setShowHistory(false)} />}
+        {showAnalytics && (
+          <AnalyticsDashboard
+            onClose={() => {
+              // Drop the hash without adding a history entry; replaceState fires no hashchange
+              window.history.replaceState(null, '', window.location.pathname + window.location.search);
+              setShowAnalytics(false);
+            }}
+          />
+        )}
+        {showSettings && (
+          <SettingsPanel
+            settings={settings}
+            onChange={handleSettingsChange}
+            onClose={() => setShowSettings(false)}
+            onOpenAnalytics={() => {
+              setShowSettings(false);
+              window.location.hash = ANALYTICS_HASH;
+            }}
+            isConnected={connectionState !== ConnectionState.DISCONNECTED && connectionState !== ConnectionState.ERROR && connectionState !== ConnectionState.OFFLINE}
+          />
         )}
-      </main>
 
-      {/* Logs (Hidden mostly, but useful context) */}
-      <div className="fixed bottom-4 right-4 w-64 h-32 bg-slate-900/90 border border-slate-700 rounded-lg p-2 overflow-y-auto text-xs font-mono text-slate-400 opacity-50 hover:opacity-100 transition-opacity">
-        {logs.map((log, i) => (
-          <div key={i} className="mb-1">
-            <span className={log.type === 'system' ? 'text-blue-400' : 'text-green-400'}>[{log.type}]</span> {log.text}
-          </div>
-        ))}
-        <div ref={logsEndRef} />
+        {/* Logs (Hidden mostly, but useful context) */}
+        <div className="fixed bottom-4 right-4 w-64 h-32 bg-slate-900/90 border border-slate-700 rounded-lg p-2 overflow-y-auto text-xs font-mono text-slate-400 opacity-50 hover:opacity-100 transition-opacity">
+          {logs.map((log, i) => (
+            <div key={i} className={`mb-1 ${log.pending ? 'italic text-slate-300' : ''}`}>
+              <span className={log.type === 'system' ? 'text-blue-400' : 'text-green-400'}>[{log.type}]</span> {log.text}
+              {log.pending && <span className="animate-pulse">…</span>}
+              {log.imageUrl && <img src={log.imageUrl} alt={t.log.sentImage} className="mt-1 max-h-16 rounded border border-slate-700" />}
+            </div>
+          ))}
+          <div ref={logsEndRef} />
+        </div>
       </div>
-    </div>
+    </I18nContext.Provider>
   );
 }
\ No newline at end of file
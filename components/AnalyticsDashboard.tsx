@@ -0,0 +1,220 @@
+import React, { useState } from 'react';
+import { AnalyticsCategory, AnalyticsData, WASTE_CATEGORIES } from '../types';
+import { clearAnalytics, loadAnalytics } from '../services/analyticsStore';
+import { dailySeries, emptyAnalytics, itemsToCsv, mainCategory, topItems, uncertainToCsv } from '../utils/analytics';
+import { fromIsoDate, toIsoDate } from '../utils/holidays';
+import { LANGUAGE_LABELS } from '../utils/settings';
+import { downloadFile } from '../utils/transcriptExport';
+import { CATEGORY_STYLES, STATION_STYLE } from './VerdictCard';
+import { useI18n } from '../i18n';
+
+interface AnalyticsDashboardProps {
+  onClose: () => void;
+}
+
+interface Bar {
+  key: string;
+  label: string;
+  count: number;
+  className?: string;
+}
+
+const CHART_DAYS = 30;
+
+// Horizontal bars scaled to the largest count
+const BarList: React.FC<{ bars: Bar[] }> = ({ bars }) => {
+  const { formatNumber } = useI18n();
+  const max = Math.max(1, ...bars.map(bar => bar.count));
+  return (
+    <ul className="space-y-1.5">
+      {bars.map(bar => (
+        <li key={bar.key} className="flex items-center gap-2 text-xs">
+          <span className="w-28 shrink-0 truncate text-slate-300">{bar.label}</span>
+          <span className="flex-1 h-4 rounded bg-slate-900/40 overflow-hidden">
+            <span
+              className={`block h-full rounded border ${bar.className ?? 'bg-blue-500/40 border-blue-400/50'}`}
+              style={{ width: `${(bar.count / max) * 100}%` }}
+            />
+          </span>
+          <span className="w-10 text-right font-mono text-slate-400">{formatNumber(bar.count)}</span>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+const Section: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <section className="space-y-2">
+    <h3 className="text-xs text-slate-500 uppercase tracking-wider">{title}</h3>
+    {children}
+  </section>
+);
+
+/** Operator view of the anonymised counts in `analyticsStore`, with CSV export. */
+export const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({ onClose }) => {
+  const { t, formatNumber, formatDateTime } = useI18n();
+  const [data, setData] = useState<AnalyticsData>(loadAnalytics);
+  const today = toIsoDate(new Date());
+
+  const formatDate = (iso: string) => formatDateTime(fromIsoDate(iso).getTime(), { dateStyle: 'medium', timeZone: 'UTC' });
+  const categoryLabel = (category: AnalyticsCategory | null) =>
+    category === null ? '' : category === 'station' ? t.verdict.station : t.verdict.categories[category];
+
+  const categoryBars: Bar[] = [...WASTE_CATEGORIES, 'station' as const].map(category => ({
+    key: category,
+    label: categoryLabel(category),
+    count: data.categories[category] ?? 0,
+    className: category === 'station' ? STATION_STYLE : CATEGORY_STYLES[category],
+  }));
+  const languageBars = (counts: AnalyticsData['replyLanguages']): Bar[] =>
+    (Object.keys(LANGUAGE_LABELS) as (keyof typeof LANGUAGE_LABELS)[]).map(language => ({
+      key: language,
+      label: LANGUAGE_LABELS[language],
+      count: counts[language] ?? 0,
+    }));
+
+  const series = dailySeries(data, CHART_DAYS, today);
+  const seriesMax = Math.max(1, ...series.map(day => day.count));
+  const items = topItems(data);
+  const classified = topItems(data, Infinity).reduce((sum, item) => sum + item.count, 0);
+
+  const handleExport = (kind: 'items' | 'uncertain') => {
+    const content = kind === 'items' ? itemsToCsv(data) : uncertainToCsv(data);
+    // The byte order mark makes spreadsheets read Icelandic letters as UTF-8
+    downloadFile(`litla-sorpa-${kind}-${today}.csv`, `\uFEFF${content}`, 'text/csv;charset=utf-8');
+  };
+
+  const handleReset = () => {
+    if (!window.confirm(t.analytics.confirmReset)) return;
+    clearAnalytics();
+    setData(emptyAnalytics(today));
+  };
+
+  const tiles = [
+    { label: t.analytics.sessions, value: data.sessions },
+    { label: t.analytics.itemsClassified, value: classified },
+    { label: t.analytics.uncertainCount, value: data.uncertain.length },
+  ];
+
+  return (
+    <div className="fixed inset-0 z-20 flex items-center justify-center bg-slate-950/70 backdrop-blur-sm p-4">
+      <div className="w-full max-w-3xl max-h-[90vh] flex flex-col bg-slate-800 border border-slate-700 rounded-3xl shadow-2xl overflow-hidden">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-700">
+          <div>
+            <h2 className="text-lg font-semibold text-white">{t.analytics.title}</h2>
+            <p className="text-xs text-slate-500">{t.analytics.since(formatDate(data.since))}</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-white text-sm">{t.analytics.close}</button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6 text-sm">
+          <p className="text-xs text-slate-400">{t.analytics.privacy}</p>
+
+          <div className="grid grid-cols-3 gap-3">
+            {tiles.map(tile => (
+              <div key={tile.label} className="p-3 rounded-2xl bg-slate-700/40 border border-slate-700 text-center">
+                <p className="text-2xl font-bold text-white">{formatNumber(tile.value)}</p>
+                <p className="text-xs text-slate-400">{tile.label}</p>
+              </div>
+            ))}
+          </div>
+
+          <Section title={t.analytics.perDay}>
+            <div className="flex items-end gap-0.5 h-24 px-1 rounded-xl bg-slate-900/40">
+              {series.map(day => (
+                <div
+                  key={day.date}
+                  className="flex-1 rounded-t bg-blue-500/60"
+                  style={{ height: `${(day.count / seriesMax) * 100}%` }}
+                  title={`${formatDate(day.date)}: ${formatNumber(day.count)}`}
+                />
+              ))}
+            </div>
+          </Section>
+
+          <div className="grid gap-6 sm:grid-cols-2">
+            <Section title={t.analytics.categories}>
+              <BarList bars={categoryBars} />
+            </Section>
+            <div className="space-y-6">
+              <Section title={t.analytics.replyLanguages}>
+                <BarList bars={languageBars(data.replyLanguages)} />
+              </Section>
+              <Section title={t.analytics.uiLanguages}>
+                <BarList bars={languageBars(data.uiLanguages)} />
+              </Section>
+            </div>
+          </div>
+
+          <Section title={t.analytics.topItems}>
+            {items.length === 0 ? <p className="text-slate-500">{t.analytics.empty}</p> : (
+              <table className="w-full text-left text-xs">
+                <thead className="text-slate-500">
+                  <tr>
+                    <th className="py-1 font-medium">{t.analytics.columns.item}</th>
+                    <th className="py-1 font-medium text-right">{t.analytics.columns.count}</th>
+                    <th className="py-1 pl-3 font-medium">{t.analytics.columns.category}</th>
+                    <th className="py-1 font-medium text-right">{t.analytics.columns.lowConfidence}</th>
+                    <th className="py-1 font-medium text-right">{t.analytics.columns.lastSeen}</th>
+                  </tr>
+                </thead>
+                <tbody className="text-slate-200">
+                  {items.map(item => (
+                    <tr key={item.name} className="border-t border-slate-700/60">
+                      <td className="py-1">{item.name}</td>
+                      <td className="py-1 text-right font-mono">{formatNumber(item.count)}</td>
+                      <td className="py-1 pl-3">{categoryLabel(mainCategory(item))}</td>
+                      <td className={`py-1 text-right font-mono ${item.lowConfidence > 0 ? 'text-amber-300' : 'text-slate-500'}`}>{formatNumber(item.lowConfidence)}</td>
+                      <td className="py-1 text-right text-slate-400">{formatDate(item.lastSeen)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </Section>
+
+          <Section title={t.analytics.uncertain}>
+            {data.uncertain.length === 0 ? <p className="text-slate-500">{t.analytics.empty}</p> : (
+              <table className="w-full text-left text-xs">
+                <thead className="text-slate-500">
+                  <tr>
+                    <th className="py-1 font-medium">{t.analytics.columns.date}</th>
+                    <th className="py-1 font-medium">{t.analytics.columns.item}</th>
+                    <th className="py-1 font-medium">{t.analytics.columns.reason}</th>
+                    <th className="py-1 font-medium text-right">{t.analytics.columns.confidence}</th>
+                    <th className="py-1 font-medium text-right">{t.analytics.columns.language}</th>
+                  </tr>
+                </thead>
+                <tbody className="text-slate-200">
+                  {data.uncertain.map((answer, i) => (
+                    <tr key={i} className="border-t border-slate-700/60">
+                      <td className="py-1 text-slate-400">{formatDate(answer.date)}</td>
+                      <td className="py-1">{answer.itemName}</td>
+                      <td className="py-1">{t.analytics.reasons[answer.reason]}</td>
+                      <td className="py-1 text-right font-mono">
+                        {answer.confidence === null ? '–' : formatNumber(answer.confidence, { style: 'percent' })}
+                      </td>
+                      <td className="py-1 text-right uppercase">{answer.language}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </Section>
+
+          <div className="flex flex-wrap gap-2">
+            <button onClick={() => handleExport('items')} className="px-3 py-2 text-sm rounded-full bg-blue-600 hover:bg-blue-700 text-white">
+              {t.analytics.exportItems}
+            </button>
+            <button onClick={() => handleExport('uncertain')} className="px-3 py-2 text-sm rounded-full bg-slate-700 hover:bg-slate-600 text-white">
+              {t.analytics.exportUncertain}
+            </button>
+            <button onClick={handleReset} className="px-3 py-2 text-sm rounded-full bg-red-500/20 hover:bg-red-500/40 text-red-200 ml-auto">
+              {t.analytics.reset}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,50 @@
+import React, { useEffect, useRef } from 'react';
+import { LogMessage } from '../types';
+import { Markdown } from './Markdown';
+import { useI18n } from '../i18n';
+
+interface ChatThreadProps {
+  logs: LogMessage[];
+  isThinking: boolean; // Question sent, no answer text yet
+}
+
+export const ChatThread: React.FC<ChatThreadProps> = ({ logs, isThinking }) => {
+  const { t, formatTime } = useI18n();
+  const endRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  }, [logs, isThinking]);
+
+  return (
+    <div className="absolute inset-0 overflow-y-auto p-4 space-y-3 text-sm" aria-live="polite">
+      {logs.length === 0 && <p className="text-center text-slate-500 mt-8">{t.chat.empty}</p>}
+
+      {logs.map((log, i) => {
+        if (log.type === 'system') {
+          return (
+            <div key={i} className="flex flex-col items-center text-xs text-slate-500">
+              <p className="text-center">{log.text}</p>
+              {log.imageUrl && <img src={log.imageUrl} alt={t.log.sentImage} className="mt-1 max-h-24 rounded-lg" />}
+            </div>
+          );
+        }
+        const isUser = log.type === 'user';
+        return (
+          <div key={i} className={`flex flex-col ${isUser ? 'items-end' : 'items-start'}`}>
+            <div className={`max-w-[85%] px-3 py-2 rounded-2xl ${isUser ? 'bg-blue-600 text-white rounded-br-sm' : 'bg-slate-700/70 text-slate-100 rounded-bl-sm'}`}>
+              {isUser ? <p className="whitespace-pre-line">{log.text}</p> : <Markdown text={log.text} />}
+              {log.imageUrl && <img src={log.imageUrl} alt={t.log.sentImage} className="mt-2 max-h-32 rounded-lg" />}
+            </div>
+            <span className="mt-0.5 text-[10px] text-slate-500">
+              {isUser ? t.chat.you : t.app.title} · {formatTime(log.timestamp)}
+            </span>
+          </div>
+        );
+      })}
+
+      {isThinking && <p className="text-xs text-slate-400 animate-pulse">{t.chat.thinking}</p>}
+      <div ref={endRef} />
+    </div>
+  );
+};
@@ -0,0 +1,128 @@
+import React, { useEffect, useState } from 'react';
+import { ConversationRecord } from '../types';
+import { deleteConversation, listConversations } from '../services/historyStore';
+import { conversationToJson, conversationToMarkdown, downloadFile } from '../utils/transcriptExport';
+import { VerdictCard } from './VerdictCard';
+import { PackagingCard } from './PackagingCard';
+import { useI18n } from '../i18n';
+
+interface HistoryPanelProps {
+  onClose: () => void;
+}
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ onClose }) => {
+  const { t, formatDateTime, formatTime } = useI18n();
+  const [conversations, setConversations] = useState<ConversationRecord[]>([]);
+  const [selected, setSelected] = useState<ConversationRecord | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    listConversations()
+      .then(setConversations)
+      .catch(err => {
+        console.error('Failed to load history', err);
+        setError(t.history.loadFailed);
+      });
+  }, []);
+
+  const handleExport = (record: ConversationRecord, format: 'json' | 'md') => {
+    const baseName = `litla-sorpa-${new Date(record.startedAt).toISOString().slice(0, 16).replace(':', '')}`;
+    if (format === 'json') {
+      downloadFile(`${baseName}.json`, conversationToJson(record), 'application/json');
+    } else {
+      downloadFile(`${baseName}.md`, conversationToMarkdown(record), 'text/markdown;charset=utf-8');
+    }
+  };
+
+  const handleDelete = async (record: ConversationRecord) => {
+    if (!window.confirm(t.history.confirmDelete)) return;
+    try {
+      await deleteConversation(record.id);
+    } catch (err) {
+      // Leave the list as it is; the conversation is still stored
+      console.error('Failed to delete conversation', err);
+      setError(t.history.deleteFailed);
+      return;
+    }
+    setError(null);
+    setConversations(prev => prev.filter(c => c.id !== record.id));
+    setSelected(null);
+  };
+
+  return (
+    <div className="fixed inset-0 z-20 flex items-center justify-center bg-slate-950/70 backdrop-blur-sm p-4">
+      <div className="w-full max-w-lg max-h-[85vh] flex flex-col bg-slate-800 border border-slate-700 rounded-3xl shadow-2xl overflow-hidden">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-700">
+          <h2 className="text-lg font-semibold text-white">
+            {selected ? formatDateTime(selected.startedAt) : t.history.title}
+          </h2>
+          <button
+            onClick={selected ? () => setSelected(null) : onClose}
+            className="text-slate-400 hover:text-white text-sm"
+          >
+            {selected ? t.history.back : t.history.close}
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-3">
+          {error && <p className="text-red-400 text-sm">{error}</p>}
+
+          {!selected && !error && conversations.length === 0 && (
+            <p className="text-slate-400 text-sm text-center">{t.history.empty}</p>
+          )}
+
+          {!selected && conversations.map(record => (
+            <button
+              key={record.id}
+              onClick={() => setSelected(record)}
+              className="w-full text-left p-4 rounded-2xl bg-slate-700/40 border border-slate-700 hover:border-slate-500 transition-all"
+            >
+              <p className="text-white font-medium">{formatDateTime(record.startedAt)}</p>
+              <p className="text-xs text-slate-400">
+                {t.history.summary(record.logs.filter(log => log.type !== 'system').length, record.verdicts.length, record.images.length)}
+              </p>
+            </button>
+          ))}
+
+          {selected && (
+            <>
+              <div className="flex flex-wrap gap-2">
+                <button onClick={() => handleExport(selected, 'md')} className="px-3 py-2 text-sm rounded-full bg-blue-600 hover:bg-blue-700 text-white">
+                  {t.history.downloadMarkdown}
+                </button>
+                <button onClick={() => handleExport(selected, 'json')} className="px-3 py-2 text-sm rounded-full bg-slate-700 hover:bg-slate-600 text-white">
+                  {t.history.downloadJson}
+                </button>
+                <button onClick={() => handleDelete(selected)} className="px-3 py-2 text-sm rounded-full bg-red-500/20 hover:bg-red-500/40 text-red-200 ml-auto">
+                  {t.history.delete}
+                </button>
+              </div>
+
+              <p className="text-xs text-slate-500 font-mono">{selected.model}</p>
+
+              {selected.verdicts.map(verdict => (
+                <VerdictCard key={verdict.id} verdict={verdict} />
+              ))}
+
+              {selected.packaging?.map(verdict => (
+                <PackagingCard key={verdict.id} verdict={verdict} />
+              ))}
+
+              <div className="space-y-1 text-sm font-mono">
+                {selected.logs.map((log, i) => (
+                  <div key={i} className={log.type === 'system' ? 'text-slate-500' : 'text-slate-200'}>
+                    <span className="text-slate-500">
+                      {formatTime(log.timestamp)}
+                    </span>{' '}
+                    <span className={log.type === 'system' ? 'text-blue-400' : 'text-green-400'}>[{log.type}]</span> {log.text}
+                    {log.imageUrl && <img src={log.imageUrl} alt={t.log.sentImage} className="mt-1 max-h-24 rounded border border-slate-700" />}
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,49 @@
+import React from 'react';
+import { MarkdownBlock, MarkdownInline, parseMarkdown } from '../utils/markdown';
+
+interface MarkdownProps {
+  text: string;
+}
+
+const renderInline = (nodes: MarkdownInline[]): React.ReactNode[] => nodes.map((node, i) => {
+  switch (node.type) {
+    case 'text':
+      return <React.Fragment key={i}>{node.text}</React.Fragment>;
+    case 'strong':
+      return <strong key={i} className="font-semibold text-white">{renderInline(node.children)}</strong>;
+    case 'em':
+      return <em key={i}>{renderInline(node.children)}</em>;
+    case 'code':
+      return <code key={i} className="px-1 rounded bg-slate-900/60 font-mono text-[0.9em]">{node.text}</code>;
+    case 'link':
+      return (
+        <a key={i} href={node.href} target="_blank" rel="noreferrer" className="underline text-blue-300 hover:text-blue-200">
+          {renderInline(node.children)}
+        </a>
+      );
+  }
+});
+
+const renderBlock = (block: MarkdownBlock, i: number): React.ReactNode => {
+  switch (block.type) {
+    case 'paragraph':
+      return <p key={i} className="whitespace-pre-line">{renderInline(block.children)}</p>;
+    case 'heading':
+      return <p key={i} className="font-semibold text-white">{renderInline(block.children)}</p>;
+    case 'list': {
+      const List = block.ordered ? 'ol' : 'ul';
+      return (
+        <List key={i} className={`pl-5 space-y-0.5 ${block.ordered ? 'list-decimal' : 'list-disc'}`}>
+          {block.items.map((item, j) => <li key={j}>{renderInline(item)}</li>)}
+        </List>
+      );
+    }
+    case 'code':
+      return <pre key={i} className="p-2 rounded-lg bg-slate-900/60 font-mono text-xs overflow-x-auto">{block.text}</pre>;
+  }
+};
+
+/** Renders model chat text. Builds React elements, never HTML strings. */
+export const Markdown: React.FC<MarkdownProps> = ({ text }) => (
+  <div className="space-y-2">{parseMarkdown(text).map(renderBlock)}</div>
+);
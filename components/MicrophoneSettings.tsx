@@ -0,0 +1,141 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AppSettings } from '../types';
+import { listMicrophones, openMicrophone, toMicrophoneError } from '../utils/microphone';
+import { useI18n } from '../i18n';
+
+interface MicrophoneSettingsProps {
+  settings: AppSettings;
+  onChange: (settings: AppSettings) => void;
+  isConnected: boolean; // The session owns the microphone; no test while connected
+  selectClassName: string;
+}
+
+const TOGGLES = ['echoCancellation', 'noiseSuppression', 'autoGainControl'] as const;
+
+// Level above which the test counts as "we hear you"
+const HEARD_LEVEL = 0.05;
+
+export const MicrophoneSettings: React.FC<MicrophoneSettingsProps> = ({ settings, onChange, isConnected, selectClassName }) => {
+  const { t } = useI18n();
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+  const [isTesting, setIsTesting] = useState(false);
+  const [level, setLevel] = useState(0);
+  const [heard, setHeard] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const stopTestRef = useRef<(() => void) | null>(null);
+  // The panel can close while the permission prompt is still open
+  const mountedRef = useRef(false);
+
+  const update = <K extends keyof AppSettings>(key: K, value: AppSettings[K]) => {
+    stopTestRef.current?.();
+    onChange({ ...settings, [key]: value });
+  };
+
+  useEffect(() => {
+    mountedRef.current = true;
+    const refresh = () => {
+      listMicrophones().then(setDevices).catch(err => console.warn('Could not list microphones', err));
+    };
+    refresh();
+    navigator.mediaDevices?.addEventListener('devicechange', refresh);
+    return () => {
+      navigator.mediaDevices?.removeEventListener('devicechange', refresh);
+      mountedRef.current = false;
+      stopTestRef.current?.();
+    };
+  }, []);
+
+  const startTest = async () => {
+    setError(null);
+    setHeard(false);
+    try {
+      const stream = await openMicrophone(settings);
+      if (!mountedRef.current) {
+        stream.getTracks().forEach(track => track.stop());
+        return;
+      }
+      const context = new (window.AudioContext || (window as any).webkitAudioContext)();
+      const analyser = context.createAnalyser();
+      analyser.fftSize = 1024;
+      context.createMediaStreamSource(stream).connect(analyser);
+      const samples = new Float32Array(analyser.fftSize);
+
+      let frame = 0;
+      const tick = () => {
+        analyser.getFloatTimeDomainData(samples);
+        let sum = 0;
+        for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+        const rms = Math.sqrt(sum / samples.length);
+        setLevel(Math.min(1, rms * 5));
+        if (rms > HEARD_LEVEL) setHeard(true);
+        frame = requestAnimationFrame(tick);
+      };
+      tick();
+
+      stopTestRef.current = () => {
+        cancelAnimationFrame(frame);
+        stream.getTracks().forEach(track => track.stop());
+        context.close();
+        stopTestRef.current = null;
+        setIsTesting(false);
+        setLevel(0);
+      };
+      setIsTesting(true);
+
+      // Labels are only available once access has been granted
+      const microphones = await listMicrophones();
+      if (mountedRef.current) setDevices(microphones);
+    } catch (err) {
+      console.error('Microphone test failed', err);
+      setError(t.errors.microphone[toMicrophoneError(err).code]);
+    }
+  };
+
+  return (
+    <div className="space-y-3 p-4 rounded-2xl border border-slate-700 bg-slate-900/30">
+      <p className="text-slate-300 font-medium">{t.microphone.heading}</p>
+
+      <label className="block space-y-1">
+        <span className="text-slate-400">{t.microphone.device}</span>
+        <select className={selectClassName} value={settings.micDeviceId} onChange={e => update('micDeviceId', e.target.value)}>
+          <option value="">{t.microphone.defaultDevice}</option>
+          {devices.map((device, index) => (
+            <option key={device.deviceId} value={device.deviceId}>{device.label || t.microphone.numberedDevice(index + 1)}</option>
+          ))}
+        </select>
+      </label>
+
+      {TOGGLES.map(key => (
+        <label key={key} className="flex items-center justify-between gap-3">
+          <span className="text-slate-400">{t.microphone[key]}</span>
+          <input
+            type="checkbox"
+            className="w-5 h-5 accent-blue-600"
+            checked={settings[key]}
+            onChange={e => update(key, e.target.checked)}
+          />
+        </label>
+      ))}
+
+      <div className="flex items-center gap-3">
+        <button
+          onClick={isTesting ? () => stopTestRef.current?.() : startTest}
+          disabled={isConnected}
+          className="px-3 py-2 rounded-full bg-slate-700 hover:bg-slate-600 text-white disabled:opacity-40 shrink-0"
+        >
+          {isTesting ? t.microphone.stopTest : t.microphone.test}
+        </button>
+        <div className="flex-1 h-2 rounded-full bg-slate-700 overflow-hidden" aria-hidden="true">
+          <div className="h-full bg-green-500 transition-[width] duration-75" style={{ width: `${level * 100}%` }} />
+        </div>
+      </div>
+
+      {isTesting && (
+        <p className={heard ? 'text-green-400' : 'text-slate-400'}>
+          {heard ? t.microphone.heard : t.microphone.speakNow}
+        </p>
+      )}
+      {error && <p role="alert" className="text-red-400">{error}</p>}
+    </div>
+  );
+};
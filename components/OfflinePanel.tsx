@@ -0,0 +1,92 @@
+import React, { useState } from 'react';
+import { CatalogueItem } from '../types';
+import { catalogueName, lookupOffline, OfflineLookup } from '../utils/offlineAnswers';
+import { CATEGORY_STYLES, STATION_STYLE } from './VerdictCard';
+import { useI18n } from '../i18n';
+
+interface OfflinePanelProps {
+  queuedCount: number;
+  onTakePhoto: () => void;
+  onScanBarcode: () => void;
+}
+
+// A catalogue entry as it stands; it has no confidence because no one judged the question
+const CatalogueAnswer: React.FC<{ item: CatalogueItem }> = ({ item }) => {
+  const { t, language } = useI18n();
+  return (
+    <div className={`p-3 rounded-xl border ${item.category ? CATEGORY_STYLES[item.category] : STATION_STYLE}`}>
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <p className="text-xs uppercase tracking-wider opacity-70">{catalogueName(item, language)}</p>
+          <p className="text-lg font-bold text-white">{item.category ? t.verdict.categories[item.category] : t.verdict.station}</p>
+          {item.category && item.takeToStation && <p className="text-xs">{t.verdict.alsoStation}</p>}
+        </div>
+        <span className="text-[10px] uppercase tracking-wider px-2 py-0.5 rounded-full bg-slate-900/40">{t.offline.fromCatalogue}</span>
+      </div>
+      {item.notes.length > 0 && (
+        <ul className="mt-2 space-y-1 text-xs list-disc list-inside">
+          {item.notes.map((note, i) => <li key={i}>{note}</li>)}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+/** Shown instead of the connect button while offline: local lookups plus the photo queue. */
+export const OfflinePanel: React.FC<OfflinePanelProps> = ({ queuedCount, onTakePhoto, onScanBarcode }) => {
+  const { t, language } = useI18n();
+  const [query, setQuery] = useState('');
+  const [result, setResult] = useState<OfflineLookup | null>(null);
+
+  const handleSearch = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (query.trim()) setResult(lookupOffline(query));
+  };
+
+  return (
+    <div className="w-full p-4 rounded-2xl border border-slate-600 bg-slate-700/30 space-y-3 text-sm animate-fade-in-up">
+      <div>
+        <p className="font-semibold text-white">{t.offline.title}</p>
+        <p className="text-xs text-slate-400">{t.offline.description}</p>
+      </div>
+
+      <form onSubmit={handleSearch} className="flex gap-2">
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => { setQuery(e.target.value); setResult(null); }}
+          placeholder={t.offline.searchPlaceholder}
+          className="flex-1 bg-slate-700/50 border border-slate-600 rounded-full px-4 py-2 text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <button type="submit" disabled={!query.trim()} className="px-4 py-2 rounded-full bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white">
+          {t.offline.search}
+        </button>
+      </form>
+
+      {result?.match && <CatalogueAnswer item={result.match} />}
+      {result && !result.match && result.candidates.length > 0 && (
+        <div className="space-y-1">
+          <p className="text-xs text-slate-400">{t.offline.didYouMean}</p>
+          <div className="flex flex-wrap gap-2">
+            {result.candidates.map(item => (
+              <button
+                key={item.id}
+                onClick={() => setResult({ match: item, candidates: [] })}
+                className="px-3 py-1 rounded-full bg-slate-700 hover:bg-slate-600 text-white text-xs"
+              >
+                {catalogueName(item, language)}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+      {result && !result.match && result.candidates.length === 0 && <p className="text-xs text-amber-300">{t.offline.notFound}</p>}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <button onClick={onTakePhoto} className="px-3 py-2 rounded-full bg-slate-700 hover:bg-slate-600 text-white">{t.offline.takePhoto}</button>
+        <button onClick={onScanBarcode} className="px-3 py-2 rounded-full bg-slate-700 hover:bg-slate-600 text-white">{t.offline.scanBarcode}</button>
+        {queuedCount > 0 && <span className="ml-auto text-xs text-slate-400">{t.offline.queued(queuedCount)}</span>}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,54 @@
+import React from 'react';
+import { PackagingVerdict } from '../types';
+import { CATEGORY_STYLES, STATION_STYLE } from './VerdictCard';
+import { useI18n } from '../i18n';
+
+interface PackagingCardProps {
+  verdict: PackagingVerdict;
+  onClose?: () => void; // Without it, e.g. in history, the card cannot be closed
+}
+
+export const PackagingCard: React.FC<PackagingCardProps> = ({ verdict, onClose }) => {
+  const { t } = useI18n();
+  const categoryName = (component: PackagingVerdict['components'][number]) =>
+    component.category ? t.verdict.categories[component.category] : t.verdict.station;
+
+  return (
+    <div className="p-4 rounded-2xl border bg-slate-700/30 border-slate-600 text-slate-200 animate-fade-in-up space-y-3">
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <p className="text-lg font-bold text-white">{verdict.productName}</p>
+          <p className="text-xs text-slate-400 font-mono">{t.packaging.barcode(verdict.barcode)}</p>
+        </div>
+        <div className="flex flex-col items-end gap-1">
+          <span className="text-[10px] uppercase tracking-wider px-2 py-0.5 rounded-full bg-slate-900/40 text-slate-300">
+            {verdict.source === 'table' ? t.packaging.fromTable : `${t.packaging.fromModel} · ${Math.round(verdict.confidence * 100)}%`}
+          </span>
+          {onClose && <button onClick={onClose} className="text-xs text-slate-500 hover:text-slate-300">{t.packaging.close}</button>}
+        </div>
+      </div>
+
+      {/* One line per part, e.g. "Flaska: Plast, Tappi: Plast, Miði: Almennt sorp" */}
+      <p className="text-sm">
+        {verdict.components.map(component => `${component.part}: ${categoryName(component)}`).join(', ')}
+      </p>
+
+      <ul className="space-y-2">
+        {verdict.components.map((component, i) => (
+          <li key={i} className={`px-3 py-2 rounded-xl border ${component.category ? CATEGORY_STYLES[component.category] : STATION_STYLE}`}>
+            <div className="flex items-center justify-between gap-3">
+              <span className="font-semibold text-white">{component.part}</span>
+              <span className="text-sm">{categoryName(component)}</span>
+            </div>
+            {component.category && component.takeToStation && <p className="text-xs">{t.verdict.alsoStation}</p>}
+            {component.notes.length > 0 && (
+              <ul className="mt-1 text-xs list-disc list-inside opacity-90">
+                {component.notes.map((note, j) => <li key={j}>{note}</li>)}
+              </ul>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
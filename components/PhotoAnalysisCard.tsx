@@ -0,0 +1,51 @@
+import React, { useState } from 'react';
+import { DetectedItem, PhotoAnalysis } from '../types';
+import { CATEGORY_STYLES, STATION_STYLE, VerdictCard } from './VerdictCard';
+import { useI18n } from '../i18n';
+
+interface PhotoAnalysisCardProps {
+  analysis: PhotoAnalysis;
+  onClose: () => void;
+}
+
+const boxStyle = (item: DetectedItem) => item.category ? CATEGORY_STYLES[item.category] : STATION_STYLE;
+
+export const PhotoAnalysisCard: React.FC<PhotoAnalysisCardProps> = ({ analysis, onClose }) => {
+  const { t } = useI18n();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const selected = analysis.items.find(item => item.id === selectedId) ?? null;
+
+  return (
+    <div className="p-3 rounded-2xl border bg-slate-700/30 border-slate-600 text-slate-200 animate-fade-in-up space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="text-xs text-slate-400 uppercase tracking-wider">{t.photo.itemCount(analysis.items.length)}</p>
+        <button onClick={onClose} className="text-xs text-slate-500 hover:text-slate-300">{t.photo.close}</button>
+      </div>
+
+      <div className="relative rounded-xl overflow-hidden">
+        <img src={analysis.imageDataUrl} alt={t.log.sentImage} className="block w-full h-auto" />
+        {analysis.items.map(item => (
+          <button
+            key={item.id}
+            onClick={() => setSelectedId(item.id === selectedId ? null : item.id)}
+            aria-label={item.itemName}
+            aria-pressed={item.id === selectedId}
+            className={`absolute border-2 rounded-md transition-all ${boxStyle(item)} ${item.id === selectedId ? 'ring-2 ring-white' : ''}`}
+            style={{
+              top: `${item.box.top * 100}%`,
+              left: `${item.box.left * 100}%`,
+              width: `${(item.box.right - item.box.left) * 100}%`,
+              height: `${(item.box.bottom - item.box.top) * 100}%`,
+            }}
+          >
+            <span className="absolute -top-px -left-px max-w-full truncate px-1 text-[10px] font-semibold bg-slate-900/70 text-white rounded-br-md">
+              {item.itemName}
+            </span>
+          </button>
+        ))}
+      </div>
+
+      {selected ? <VerdictCard verdict={selected} /> : <p className="text-xs text-slate-400 text-center">{t.photo.tapHint}</p>}
+    </div>
+  );
+};
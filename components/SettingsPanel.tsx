@@ -0,0 +1,174 @@
+import React from 'react';
+import { AppSettings, ReplyLanguage, SpeakingStyle, UiLanguage } from '../types';
+import {
+  CAMERA_FRAME_RATE_OPTIONS,
+  IDLE_TIMEOUT_OPTIONS,
+  LANGUAGE_LABELS,
+  MAX_SESSION_OPTIONS,
+  MODEL_OPTIONS,
+  SPEAKING_STYLES,
+  UI_LANGUAGES,
+  VOICE_OPTIONS,
+} from '../utils/settings';
+import { useI18n } from '../i18n';
+import { MicrophoneSettings } from './MicrophoneSettings';
+
+interface SettingsPanelProps {
+  settings: AppSettings;
+  onChange: (settings: AppSettings) => void;
+  onClose: () => void;
+  onOpenAnalytics: () => void;
+  isConnected: boolean;
+}
+
+const selectClassName = 'w-full bg-slate-700/50 border border-slate-600 rounded-xl px-3 py-2 text-white focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+export const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, onChange, onClose, onOpenAnalytics, isConnected }) => {
+  const { t, formatNumber } = useI18n();
+  const update = <K extends keyof AppSettings>(key: K, value: AppSettings[K]) => {
+    onChange({ ...settings, [key]: value });
+  };
+
+  return (
+    <div className="fixed inset-0 z-20 flex items-center justify-center bg-slate-950/70 backdrop-blur-sm p-4">
+      <div className="w-full max-w-md bg-slate-800 border border-slate-700 rounded-3xl shadow-2xl overflow-hidden">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-700">
+          <h2 className="text-lg font-semibold text-white">{t.settings.title}</h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-white text-sm">{t.settings.close}</button>
+        </div>
+
+        <div className="p-6 space-y-4 text-sm max-h-[75vh] overflow-y-auto">
+          {isConnected && (
+            <p className="text-amber-300 bg-amber-500/10 border border-amber-500/30 rounded-xl px-3 py-2">
+              {t.settings.appliesNextConnection}
+            </p>
+          )}
+
+          <label className="block space-y-1">
+            <span className="text-slate-400">{t.settings.uiLanguage}</span>
+            <select
+              className={selectClassName}
+              value={settings.uiLanguage}
+              onChange={e => update('uiLanguage', e.target.value as UiLanguage | 'auto')}
+            >
+              <option value="auto">{t.settings.uiLanguageAuto}</option>
+              {UI_LANGUAGES.map(language => (
+                <option key={language} value={language}>{LANGUAGE_LABELS[language]}</option>
+              ))}
+            </select>
+          </label>
+
+          <label className="block space-y-1">
+            <span className="text-slate-400">{t.settings.voice}</span>
+            <select className={selectClassName} value={settings.voiceName} onChange={e => update('voiceName', e.target.value)}>
+              {VOICE_OPTIONS.map(voice => <option key={voice} value={voice}>{voice}</option>)}
+            </select>
+          </label>
+
+          <label className="block space-y-1">
+            <span className="text-slate-400">{t.settings.replyLanguage}</span>
+            <select
+              className={selectClassName}
+              value={settings.replyLanguage}
+              onChange={e => update('replyLanguage', e.target.value as ReplyLanguage)}
+            >
+              {(Object.keys(LANGUAGE_LABELS) as ReplyLanguage[]).map(language => (
+                <option key={language} value={language}>{LANGUAGE_LABELS[language]}</option>
+              ))}
+            </select>
+          </label>
+
+          <label className="block space-y-1">
+            <span className="text-slate-400">{t.settings.speakingStyle}</span>
+            <select
+              className={selectClassName}
+              value={settings.speakingStyle}
+              onChange={e => update('speakingStyle', e.target.value as SpeakingStyle)}
+            >
+              {SPEAKING_STYLES.map(style => (
+                <option key={style} value={style}>{t.settings.speakingStyles[style]}</option>
+              ))}
+            </select>
+          </label>
+
+          <label className="block space-y-1">
+            <span className="text-slate-400">{t.settings.model}</span>
+            <select className={selectClassName} value={settings.model} onChange={e => update('model', e.target.value)}>
+              {MODEL_OPTIONS.map(model => <option key={model} value={model}>{model}</option>)}
+            </select>
+          </label>
+
+          <label className="block space-y-1">
+            <span className="text-slate-400">{t.settings.cameraFrameRate}</span>
+            <select
+              className={selectClassName}
+              value={settings.cameraFrameRate}
+              onChange={e => update('cameraFrameRate', Number(e.target.value))}
+            >
+              {CAMERA_FRAME_RATE_OPTIONS.map(rate => (
+                <option key={rate} value={rate}>{formatNumber(rate)}</option>
+              ))}
+            </select>
+          </label>
+
+          <label className="block space-y-1">
+            <span className="text-slate-400">{t.settings.idleTimeout}</span>
+            <select
+              className={selectClassName}
+              value={settings.idleTimeoutMinutes}
+              onChange={e => update('idleTimeoutMinutes', Number(e.target.value))}
+            >
+              {IDLE_TIMEOUT_OPTIONS.map(minutes => (
+                <option key={minutes} value={minutes}>{minutes === 0 ? t.settings.never : t.settings.minutes(minutes)}</option>
+              ))}
+            </select>
+          </label>
+
+          <label className="block space-y-1">
+            <span className="text-slate-400">{t.settings.maxSession}</span>
+            <select
+              className={selectClassName}
+              value={settings.maxSessionMinutes}
+              onChange={e => update('maxSessionMinutes', Number(e.target.value))}
+            >
+              {MAX_SESSION_OPTIONS.map(minutes => (
+                <option key={minutes} value={minutes}>{t.settings.minutes(minutes)}</option>
+              ))}
+            </select>
+          </label>
+
+          <MicrophoneSettings
+            settings={settings}
+            onChange={onChange}
+            isConnected={isConnected}
+            selectClassName={selectClassName}
+          />
+
+          <label className="flex items-center justify-between gap-3">
+            <span className="text-slate-400">{t.settings.multiItemPhotos}</span>
+            <input
+              type="checkbox"
+              className="w-5 h-5 accent-blue-600"
+              checked={settings.multiItemPhotos}
+              onChange={e => update('multiItemPhotos', e.target.checked)}
+            />
+          </label>
+
+          <label className="flex items-center justify-between gap-3">
+            <span className="text-slate-400">{t.settings.useLocation}</span>
+            <input
+              type="checkbox"
+              className="w-5 h-5 accent-blue-600"
+              checked={settings.useLocation}
+              onChange={e => update('useLocation', e.target.checked)}
+            />
+          </label>
+
+          <button onClick={onOpenAnalytics} className="w-full text-left text-xs text-slate-500 hover:text-slate-300 pt-2 border-t border-slate-700">
+            {t.settings.openAnalytics}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,41 @@
+import React from 'react';
+import { StationMatch } from '../types';
+import { useI18n } from '../i18n';
+
+interface StationCardProps {
+  match: StationMatch;
+}
+
+export const StationCard: React.FC<StationCardProps> = ({ match }) => {
+  const { t, formatNumber } = useI18n();
+  const { station, isOpen, todayHours, holidayName, distanceKm } = match;
+
+  return (
+    <div className="p-4 rounded-2xl border bg-orange-500/10 border-orange-400/40 text-orange-100 animate-fade-in-up">
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <p className="font-semibold text-white">{station.name}</p>
+          <p className="text-xs opacity-80">{station.address}</p>
+        </div>
+        <span className={`text-xs font-medium px-2 py-1 rounded-full ${isOpen ? 'bg-green-500/20 text-green-200' : 'bg-slate-900/40 text-slate-300'}`}>
+          {isOpen ? t.stations.open : t.stations.closed}
+        </span>
+      </div>
+
+      <p className="mt-2 text-sm">
+        {todayHours ? t.stations.todayHours(todayHours.open, todayHours.close) : t.stations.closedToday}
+        {holidayName && <span className="opacity-70"> ({holidayName})</span>}
+        {distanceKm !== undefined && <span className="opacity-70"> · {formatNumber(distanceKm, { minimumFractionDigits: 1, maximumFractionDigits: 1 })} km</span>}
+      </p>
+
+      <a
+        href={`https://www.google.com/maps/search/?api=1&query=${station.latitude},${station.longitude}`}
+        target="_blank"
+        rel="noreferrer"
+        className="mt-1 inline-block text-xs underline opacity-80 hover:opacity-100"
+      >
+        {t.stations.openInMap}
+      </a>
+    </div>
+  );
+};
@@ -0,0 +1,46 @@
+import React from 'react';
+import { SessionUsage } from '../types';
+import { useI18n } from '../i18n';
+
+interface UsageSummaryProps {
+  usage: SessionUsage;
+  onClose: () => void;
+}
+
+const formatDuration = (ms: number) => {
+  const totalSeconds = Math.round(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${String(seconds).padStart(2, '0')}`;
+};
+
+export const UsageSummary: React.FC<UsageSummaryProps> = ({ usage, onClose }) => {
+  const { t, formatNumber } = useI18n();
+  const formatSeconds = (seconds: number) => t.usage.seconds(formatNumber(Math.round(seconds)));
+
+  const rows: [string, string][] = [
+    [t.usage.connectedTime, formatDuration(usage.connectedMs)],
+    [t.usage.audioSent, formatSeconds(usage.audioSentSeconds)],
+    [t.usage.audioReceived, formatSeconds(usage.audioReceivedSeconds)],
+    [t.usage.imagesSent, formatNumber(usage.imagesSent)],
+    [t.usage.cameraFrames, formatNumber(usage.cameraFrames)],
+    [t.usage.tokens, `${formatNumber(usage.promptTokens)} / ${formatNumber(usage.responseTokens)}`],
+  ];
+
+  return (
+    <div className="p-4 rounded-2xl border bg-slate-700/30 border-slate-600 text-slate-200 animate-fade-in-up">
+      <div className="flex items-center justify-between mb-2">
+        <p className="font-semibold text-white">{t.usage.title}</p>
+        <button onClick={onClose} className="text-slate-400 hover:text-white text-xs">{t.usage.close}</button>
+      </div>
+      <dl className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm">
+        {rows.map(([label, value]) => (
+          <React.Fragment key={label}>
+            <dt className="text-slate-400">{label}</dt>
+            <dd className="text-right font-mono">{value}</dd>
+          </React.Fragment>
+        ))}
+      </dl>
+    </div>
+  );
+};
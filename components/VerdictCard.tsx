@@ -0,0 +1,52 @@
+import React from 'react';
+import { SortingVerdict, WasteCategory } from '../types';
+import { useI18n } from '../i18n';
+
+export const CATEGORY_STYLES: Record<WasteCategory, string> = {
+  'Plast': 'bg-purple-500/20 border-purple-400/50 text-purple-200',
+  'Pappi': 'bg-blue-500/20 border-blue-400/50 text-blue-200',
+  'Málmur': 'bg-zinc-400/20 border-zinc-300/50 text-zinc-100',
+  'Gler': 'bg-teal-500/20 border-teal-400/50 text-teal-200',
+  'Lífrænt': 'bg-amber-700/30 border-amber-500/50 text-amber-200',
+  'Almennt sorp': 'bg-slate-500/20 border-slate-400/50 text-slate-200',
+};
+
+export const STATION_STYLE = 'bg-orange-500/20 border-orange-400/50 text-orange-200';
+
+interface VerdictCardProps {
+  verdict: SortingVerdict;
+}
+
+export const VerdictCard: React.FC<VerdictCardProps> = ({ verdict }) => {
+  const { t } = useI18n();
+  const confidencePercent = Math.round(verdict.confidence * 100);
+  const style = verdict.category ? CATEGORY_STYLES[verdict.category] : STATION_STYLE;
+
+  return (
+    <div className={`p-4 rounded-2xl border ${style} animate-fade-in-up`}>
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <p className="text-xs uppercase tracking-wider opacity-70">{verdict.itemName}</p>
+          <p className="text-xl font-bold text-white">{verdict.category ? t.verdict.categories[verdict.category] : t.verdict.station}</p>
+          {verdict.category && verdict.takeToStation && (
+            <p className="text-xs">{t.verdict.alsoStation}</p>
+          )}
+        </div>
+        <span
+          className="text-xs font-mono px-2 py-1 rounded-full bg-slate-900/40"
+          title={t.verdict.confidence}
+        >
+          {confidencePercent}%
+        </span>
+      </div>
+
+      {verdict.preparation.length > 0 && (
+        <ul className="mt-2 space-y-1 text-sm list-disc list-inside">
+          {verdict.preparation.map((step, i) => (
+            <li key={i}>{step}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -1,10 +1,122 @@
-import React, { useEffect, useRef } from 'react';
-import { AudioVisualizerProps } from '../types';
+import React, { useEffect, useRef, useState } from 'react';
+import { AudioVisualizerProps, ConversationActivity } from '../types';
+import { useI18n } from '../i18n';
 
-export const Visualizer: React.FC<AudioVisualizerProps> = ({ isPlaying, volume }) => {
+interface Palette {
+  core: string; // "r, g, b"
+}
+
+const PALETTES: Record<ConversationActivity, Palette> = {
+  idle: { core: '148, 163, 184' },
+  listening: { core: '52, 211, 153' },
+  thinking: { core: '251, 191, 36' },
+  speaking: { core: '56, 189, 248' },
+};
+
+const BAR_COUNT = 48;
+const BASE_RADIUS = 0.15; // Fraction of the canvas size
+
+const REDUCED_MOTION_QUERY = '(prefers-reduced-motion: reduce)';
+
+function usePrefersReducedMotion(): boolean {
+  const [reduced, setReduced] = useState(() => window.matchMedia?.(REDUCED_MOTION_QUERY).matches ?? false);
+
+  useEffect(() => {
+    const query = window.matchMedia?.(REDUCED_MOTION_QUERY);
+    if (!query) return;
+    const onChange = () => setReduced(query.matches);
+    query.addEventListener('change', onChange);
+    return () => query.removeEventListener('change', onChange);
+  }, []);
+
+  return reduced;
+}
+
+function readLevel(analyser: AnalyserNode, buffer: Float32Array<ArrayBuffer>): number {
+  analyser.getFloatTimeDomainData(buffer);
+  let sum = 0;
+  for (let i = 0; i < buffer.length; i++) sum += buffer[i] * buffer[i];
+  return Math.min(1, Math.sqrt(sum / buffer.length) * 4);
+}
+
+// Resizes the backing store to the element size times devicePixelRatio; returns the CSS size
+function fitCanvas(canvas: HTMLCanvasElement, ctx: CanvasRenderingContext2D): number {
+  const dpr = window.devicePixelRatio || 1;
+  const size = canvas.clientWidth || 400;
+  const pixels = Math.round(size * dpr);
+  if (canvas.width !== pixels || canvas.height !== pixels) {
+    canvas.width = pixels;
+    canvas.height = pixels;
+  }
+  ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+  return size;
+}
+
+function drawOrb(ctx: CanvasRenderingContext2D, size: number, palette: Palette, level: number, dormant: boolean) {
+  const center = size / 2;
+  const baseRadius = size * BASE_RADIUS;
+  const radius = baseRadius + level * size * 0.12;
+
+  const gradient = ctx.createRadialGradient(center, center, baseRadius * 0.5, center, center, radius * 1.5);
+  gradient.addColorStop(0, `rgba(${palette.core}, ${dormant ? 0.5 : 0.9})`);
+  if (!dormant) gradient.addColorStop(0.5, `rgba(${palette.core}, 0.4)`);
+  gradient.addColorStop(1, `rgba(${palette.core}, 0)`);
+
+  ctx.beginPath();
+  ctx.arc(center, center, radius * 1.5, 0, Math.PI * 2);
+  ctx.fillStyle = gradient;
+  ctx.fill();
+}
+
+// Frequency bins drawn as bars radiating out of the orb; speech lives in the lower half of the spectrum
+function drawSpectrum(ctx: CanvasRenderingContext2D, size: number, palette: Palette, bins: Uint8Array<ArrayBuffer>) {
+  const center = size / 2;
+  const innerRadius = size * BASE_RADIUS * 1.6;
+  const maxLength = size * 0.18;
+  const usableBins = Math.floor(bins.length / 2);
+
+  ctx.strokeStyle = `rgba(${palette.core}, 0.7)`;
+  ctx.lineWidth = Math.max(1.5, (Math.PI * 2 * innerRadius) / BAR_COUNT * 0.4);
+  ctx.lineCap = 'round';
+
+  for (let i = 0; i < BAR_COUNT; i++) {
+    // Mirror so low frequencies sit at the top and both halves match
+    const band = i < BAR_COUNT / 2 ? i : BAR_COUNT - 1 - i;
+    const bin = Math.floor((band / (BAR_COUNT / 2)) * usableBins);
+    const length = 2 + (bins[bin] / 255) * maxLength;
+    const angle = (i / BAR_COUNT) * Math.PI * 2 - Math.PI / 2;
+
+    ctx.beginPath();
+    ctx.moveTo(center + Math.cos(angle) * innerRadius, center + Math.sin(angle) * innerRadius);
+    ctx.lineTo(center + Math.cos(angle) * (innerRadius + length), center + Math.sin(angle) * (innerRadius + length));
+    ctx.stroke();
+  }
+}
+
+// Dots circling the orb while the model works on an answer
+function drawThinking(ctx: CanvasRenderingContext2D, size: number, palette: Palette, phase: number) {
+  const center = size / 2;
+  const orbit = size * BASE_RADIUS * 1.9;
+
+  for (let i = 0; i < 3; i++) {
+    const angle = phase * 2 + (i * Math.PI * 2) / 3;
+    ctx.beginPath();
+    ctx.arc(center + Math.cos(angle) * orbit, center + Math.sin(angle) * orbit, size * 0.015, 0, Math.PI * 2);
+    ctx.fillStyle = `rgba(${palette.core}, ${0.5 + 0.4 * Math.sin(phase * 3 + i)})`;
+    ctx.fill();
+  }
+}
+
+export const Visualizer: React.FC<AudioVisualizerProps> = ({ activity, inputAnalyser, outputAnalyser }) => {
+  const { t } = useI18n();
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  // Initializing with null to satisfy TypeScript requirement for an initial argument
-  const animationRef = useRef<number | null>(null);
+  const reducedMotion = usePrefersReducedMotion();
+
+  // The render loop reads the latest props from a ref so it is started only once
+  const propsRef = useRef({ activity, inputAnalyser, outputAnalyser });
+  propsRef.current = { activity, inputAnalyser, outputAnalyser };
+  // With reduced motion nothing animates, so the still frame is redrawn whenever the state changes
+  const stillFrameKey = reducedMotion ? activity : null;
 
   useEffect(() => {
     const canvas = canvasRef.current;
@@ -12,65 +124,53 @@ export const Visualizer: React.FC<AudioVisualizerProps> = ({ isPlaying, volume }
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
 
+    let frame: number | null = null;
     let phase = 0;
+    let smoothedLevel = 0;
+    let timeData = new Float32Array(0);
+    let freqData = new Uint8Array(0);
 
     const render = () => {
-      // Clear canvas
-      ctx.clearRect(0, 0, canvas.width, canvas.height);
-      const centerX = canvas.width / 2;
-      const centerY = canvas.height / 2;
-
-      // Base radius plus volume effect
-      const baseRadius = 60;
-      // Smooth the volume visual
-      const dynamicRadius = baseRadius + (volume * 50);
-
-      // Draw glowing orb
-      const gradient = ctx.createRadialGradient(centerX, centerY, baseRadius * 0.5, centerX, centerY, dynamicRadius * 1.5);
-      
-      if (isPlaying) {
-        gradient.addColorStop(0, 'rgba(56, 189, 248, 0.9)'); // Sky blue core
-        gradient.addColorStop(0.5, 'rgba(56, 189, 248, 0.4)');
-        gradient.addColorStop(1, 'rgba(56, 189, 248, 0)');
-      } else {
-        gradient.addColorStop(0, 'rgba(148, 163, 184, 0.5)'); // Slate dormant
-        gradient.addColorStop(1, 'rgba(148, 163, 184, 0)');
+      const { activity, inputAnalyser, outputAnalyser } = propsRef.current;
+      const size = fitCanvas(canvas, ctx);
+      const palette = PALETTES[activity];
+      ctx.clearRect(0, 0, size, size);
+
+      const analyser = activity === 'speaking' ? outputAnalyser : activity === 'listening' ? inputAnalyser : null;
+      let level = 0;
+      if (analyser && !reducedMotion) {
+        if (timeData.length !== analyser.fftSize) timeData = new Float32Array(analyser.fftSize);
+        if (freqData.length !== analyser.frequencyBinCount) freqData = new Uint8Array(analyser.frequencyBinCount);
+        level = readLevel(analyser, timeData);
+        analyser.getByteFrequencyData(freqData);
       }
+      // Fast attack, slow release
+      smoothedLevel = Math.max(level, smoothedLevel * 0.9);
 
-      ctx.beginPath();
-      ctx.arc(centerX, centerY, dynamicRadius * 1.5, 0, Math.PI * 2);
-      ctx.fillStyle = gradient;
-      ctx.fill();
-
-      // Draw rings if active
-      if (isPlaying) {
-        ctx.strokeStyle = 'rgba(56, 189, 248, 0.3)';
-        ctx.lineWidth = 2;
-        
-        for (let i = 0; i < 3; i++) {
-          ctx.beginPath();
-          const ringRadius = baseRadius + (Math.sin(phase + i) * 10) + (volume * 20);
-          ctx.arc(centerX, centerY, ringRadius + (i * 15), 0, Math.PI * 2);
-          ctx.stroke();
-        }
-        phase += 0.05;
+      drawOrb(ctx, size, palette, reducedMotion ? 0 : smoothedLevel, activity === 'idle');
+      if (analyser && !reducedMotion) {
+        drawSpectrum(ctx, size, palette, freqData);
+      }
+      if (activity === 'thinking') {
+        drawThinking(ctx, size, palette, reducedMotion ? 0 : phase);
       }
 
-      animationRef.current = requestAnimationFrame(render);
+      phase += 0.03;
+      if (!reducedMotion) frame = requestAnimationFrame(render);
     };
 
     render();
 
     return () => {
-      if (animationRef.current) cancelAnimationFrame(animationRef.current);
+      if (frame !== null) cancelAnimationFrame(frame);
     };
-  }, [isPlaying, volume]);
+  }, [reducedMotion, stillFrameKey]);
 
   return (
-    <canvas 
-      ref={canvasRef} 
-      width={400} 
-      height={400} 
+    <canvas
+      ref={canvasRef}
+      role="img"
+      aria-label={t.activity[activity]}
       className="w-full max-w-[400px] h-auto aspect-square mx-auto"
     />
   );
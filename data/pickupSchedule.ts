@@ -0,0 +1,43 @@
+import { PickupRule, WasteCategory } from '../types';
+
+// Bump when the schedule changes; shown to the model alongside answers
+export const PICKUP_SCHEDULE_VERSION = '2026.1';
+
+export const PICKUP_AREAS = ['Vesturbær', 'Austurbær', 'Kópavogur', 'Hafnarfjörður'];
+
+const rule = (area: string, category: WasteCategory, anchorDate: string, intervalWeeks: number): PickupRule => ({
+  area,
+  category,
+  anchorDate,
+  intervalWeeks,
+});
+
+export const PICKUP_SCHEDULE: PickupRule[] = [
+  rule('Vesturbær', 'Almennt sorp', '2026-01-05', 2),
+  rule('Vesturbær', 'Lífrænt', '2026-01-05', 2),
+  rule('Vesturbær', 'Pappi', '2026-01-07', 3),
+  rule('Vesturbær', 'Plast', '2026-01-14', 3),
+  rule('Vesturbær', 'Gler', '2026-01-09', 4),
+  rule('Vesturbær', 'Málmur', '2026-01-16', 4),
+
+  rule('Austurbær', 'Almennt sorp', '2026-01-06', 2),
+  rule('Austurbær', 'Lífrænt', '2026-01-06', 2),
+  rule('Austurbær', 'Pappi', '2026-01-08', 3),
+  rule('Austurbær', 'Plast', '2026-01-15', 3),
+  rule('Austurbær', 'Gler', '2026-01-12', 4),
+  rule('Austurbær', 'Málmur', '2026-01-19', 4),
+
+  rule('Kópavogur', 'Almennt sorp', '2026-01-07', 2),
+  rule('Kópavogur', 'Lífrænt', '2026-01-07', 2),
+  rule('Kópavogur', 'Pappi', '2026-01-12', 3),
+  rule('Kópavogur', 'Plast', '2026-01-19', 3),
+  rule('Kópavogur', 'Gler', '2026-01-13', 4),
+  rule('Kópavogur', 'Málmur', '2026-01-20', 4),
+
+  rule('Hafnarfjörður', 'Almennt sorp', '2026-01-08', 2),
+  rule('Hafnarfjörður', 'Lífrænt', '2026-01-08', 2),
+  rule('Hafnarfjörður', 'Pappi', '2026-01-13', 3),
+  rule('Hafnarfjörður', 'Plast', '2026-01-20', 3),
+  rule('Hafnarfjörður', 'Gler', '2026-01-14', 4),
+  rule('Hafnarfjörður', 'Málmur', '2026-01-21', 4),
+];
@@ -0,0 +1,93 @@
+import { ProductPackaging } from '../types';
+
+// Bump whenever an entry changes, as with the sorting catalogue
+export const PACKAGING_TABLE_VERSION = '1.0.0';
+
+// Packaging split into the parts that are sorted separately, keyed by EAN-13.
+// Products missing here are worked out by the model from the photo.
+export const PRODUCT_PACKAGING: ProductPackaging[] = [
+  {
+    gtin: '5690001000014',
+    name: 'Sódavatn 500 ml',
+    components: [
+      { part: 'Flaska', category: 'Plast', takeToStation: false, notes: ['Skilagjald er á flöskunni; skilaðu henni í endurvinnslu fyrir skilagjald.'] },
+      { part: 'Tappi', category: 'Plast', takeToStation: false, notes: ['Skrúfaðu tappann aftur á tóma flöskuna.'] },
+      { part: 'Miði', category: 'Almennt sorp', takeToStation: false, notes: [] },
+    ],
+  },
+  {
+    gtin: '5690001000021',
+    name: 'Nýmjólk 1 l',
+    components: [
+      { part: 'Ferna', category: 'Pappi', takeToStation: false, notes: ['Skolaðu fernuna og brjóttu hana saman.'] },
+      { part: 'Tappi', category: 'Plast', takeToStation: false, notes: [] },
+    ],
+  },
+  {
+    gtin: '5690001000038',
+    name: 'Skyr 500 g',
+    components: [
+      { part: 'Dós', category: 'Plast', takeToStation: false, notes: ['Skafðu dósina og skolaðu.'] },
+      { part: 'Lok', category: 'Plast', takeToStation: false, notes: [] },
+      { part: 'Innsigli', category: 'Málmur', takeToStation: false, notes: ['Álinnsiglið fer í málm ef það er hreint.'] },
+    ],
+  },
+  {
+    gtin: '5690001000045',
+    name: 'Sulta í glerkrukku',
+    components: [
+      { part: 'Krukka', category: 'Gler', takeToStation: false, notes: ['Skolaðu krukkuna.'] },
+      { part: 'Lok', category: 'Málmur', takeToStation: false, notes: [] },
+      { part: 'Miði', category: 'Almennt sorp', takeToStation: false, notes: ['Miðinn má fylgja krukkunni ef hann losnar ekki.'] },
+    ],
+  },
+  {
+    gtin: '5690001000052',
+    name: 'Niðursoðnir tómatar',
+    components: [
+      { part: 'Dós', category: 'Málmur', takeToStation: false, notes: ['Skolaðu dósina og settu lokið ofan í hana.'] },
+      { part: 'Miði', category: 'Pappi', takeToStation: false, notes: [] },
+    ],
+  },
+  {
+    gtin: '5690001000069',
+    name: 'Morgunkorn',
+    components: [
+      { part: 'Kassi', category: 'Pappi', takeToStation: false, notes: ['Brjóttu kassann saman.'] },
+      { part: 'Innri poki', category: 'Plast', takeToStation: false, notes: [] },
+    ],
+  },
+  {
+    gtin: '5690001000076',
+    name: 'Kaffi 400 g',
+    components: [
+      { part: 'Poki', category: 'Almennt sorp', takeToStation: false, notes: ['Kaffipokar eru úr samsettu plasti og áli og flokkast ekki.'] },
+      { part: 'Klemma', category: 'Málmur', takeToStation: false, notes: [] },
+    ],
+  },
+  {
+    gtin: '5690001000083',
+    name: 'AA rafhlöður, 4 stk.',
+    components: [
+      { part: 'Rafhlöður', category: null, takeToStation: true, notes: ['Rafhlöður fara í spilliefnagám á gámastöð eða í söfnunarkassa í verslunum.'] },
+      { part: 'Spjald', category: 'Pappi', takeToStation: false, notes: [] },
+      { part: 'Plastbóla', category: 'Plast', takeToStation: false, notes: [] },
+    ],
+  },
+  {
+    gtin: '5690001000090',
+    name: 'Uppþvottalögur 500 ml',
+    components: [
+      { part: 'Brúsi', category: 'Plast', takeToStation: false, notes: ['Skolaðu brúsann.'] },
+      { part: 'Dælutappi', category: 'Almennt sorp', takeToStation: false, notes: ['Dælan er með málmfjöður og fer í almennt sorp.'] },
+    ],
+  },
+  {
+    gtin: '0036000291452',
+    name: 'Bréfþurrkur',
+    components: [
+      { part: 'Kassi', category: 'Pappi', takeToStation: false, notes: [] },
+      { part: 'Plastgluggi', category: 'Plast', takeToStation: false, notes: ['Rífðu plastgluggann úr kassanum.'] },
+    ],
+  },
+];
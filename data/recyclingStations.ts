@@ -0,0 +1,56 @@
+import { OpeningSpan, RecyclingStation, STATION_MATERIALS, StationMaterial } from '../types';
+
+// Bump when opening hours or accepted materials change
+export const STATIONS_VERSION = '2026.1';
+
+const span = (open: string, close: string): OpeningSpan => ({ open, close });
+
+const WEEKDAY_HOURS = span('12:30', '19:00');
+const WEEKEND_HOURS = span('12:30', '18:30');
+
+// Sunday first, matching Date#getUTCDay
+const STANDARD_HOURS = [WEEKEND_HOURS, WEEKDAY_HOURS, WEEKDAY_HOURS, WEEKDAY_HOURS, WEEKDAY_HOURS, WEEKDAY_HOURS, WEEKEND_HOURS];
+
+// Holidays on which stations open with shortened hours; all others are closed
+const STANDARD_HOLIDAY_HOURS: Record<string, OpeningSpan | null> = {
+  'Skírdagur': span('12:30', '18:30'),
+  'Annar í páskum': span('12:30', '18:30'),
+  'Sumardagurinn fyrsti': span('12:30', '18:30'),
+  'Uppstigningardagur': span('12:30', '18:30'),
+  'Annar í hvítasunnu': span('12:30', '18:30'),
+  'Frídagur verslunarmanna': span('12:30', '18:30'),
+  'Aðfangadagur': span('09:00', '12:00'),
+  'Annar í jólum': span('12:30', '18:30'),
+  'Gamlársdagur': span('09:00', '12:00'),
+};
+
+const ALL_MATERIALS: StationMaterial[] = [...STATION_MATERIALS];
+
+const station = (
+  id: string,
+  name: string,
+  address: string,
+  latitude: number,
+  longitude: number,
+  materials: StationMaterial[] = ALL_MATERIALS,
+): RecyclingStation => ({
+  id,
+  name,
+  address,
+  latitude,
+  longitude,
+  materials,
+  hours: STANDARD_HOURS,
+  holidayHours: STANDARD_HOLIDAY_HOURS,
+});
+
+export const RECYCLING_STATIONS: RecyclingStation[] = [
+  station('ananaust', 'Gámastöðin Ánanaustum', 'Ánanaust 8, 101 Reykjavík', 64.1524, -21.9560),
+  station('saevarhofdi', 'Gámastöðin Sævarhöfða', 'Sævarhöfði 21, 110 Reykjavík', 64.1253, -21.8254),
+  station('jafnasel', 'Gámastöðin Jafnaseli', 'Jafnasel 1, 109 Reykjavík', 64.0958, -21.8437,
+    ALL_MATERIALS.filter(material => material !== 'Timbur')),
+  station('dalvegur', 'Gámastöðin Dalvegi', 'Dalvegur 1, 201 Kópavogur', 64.1037, -21.8833),
+  station('breidhella', 'Gámastöðin Breiðhellu', 'Breiðhella 1, 221 Hafnarfjörður', 64.0437, -21.9760),
+  station('blidubakki', 'Gámastöðin Blíðubakka', 'Blíðubakki 1, 270 Mosfellsbær', 64.1675, -21.6931,
+    ALL_MATERIALS.filter(material => material !== 'Spilliefni')),
+];
@@ -0,0 +1,263 @@
+import { CatalogueItem, WasteCategory } from '../types';
+
+// Bump whenever an entry changes so answers can be traced back to a catalogue revision
+export const CATALOGUE_VERSION = '1.1.0';
+
+// What belongs in each home bin; used to generate the system prompt
+export const CATEGORY_RULES: Record<WasteCategory, string> = {
+  'Plast': 'Plastumbúðir, plastpokar, plastfilma, dósir og bakkar úr plasti. Skola þarf matarleifar af.',
+  'Pappi': 'Pappír, pappakassar, fernur, dagblöð og eggjabakkar. Fernur á að skola og brjóta saman.',
+  'Málmur': 'Niðursuðudósir, álbakkar, álpappír, lok og tappar úr málmi.',
+  'Gler': 'Glerkrukkur og glerflöskur. Ekki drykkjarglös, speglar, rúðugler eða postulín.',
+  'Lífrænt': 'Matarleifar, kaffikorgur, tepokar, eggjaskurn og eldhúspappír.',
+  'Almennt sorp': 'Það sem ekki er hægt að endurvinna, t.d. bleyjur, ryksugupokar og óhreinar umbúðir.',
+};
+
+export const WASTE_CATALOGUE: CatalogueItem[] = [
+  // Pappi
+  {
+    id: 'pizza-box',
+    names: { is: ['Pítsukassi', 'pizzakassi', 'flatbökukassi'], en: ['Pizza box'] },
+    category: 'Pappi',
+    notes: ['Fjarlægðu matarleifar og ost.', 'Mjög fitugur pappi fer í almennt sorp.'],
+    takeToStation: false,
+  },
+  {
+    id: 'milk-carton',
+    names: { is: ['Mjólkurferna', 'ferna', 'safaferna'], en: ['Milk carton', 'juice carton', 'carton'] },
+    category: 'Pappi',
+    notes: ['Skolaðu fernuna og brjóttu hana saman.'],
+    takeToStation: false,
+  },
+  {
+    id: 'newspaper',
+    names: { is: ['Dagblað', 'tímarit', 'bæklingur', 'auglýsingapóstur'], en: ['Newspaper', 'magazine', 'flyer'] },
+    category: 'Pappi',
+    notes: [],
+    takeToStation: false,
+  },
+  {
+    id: 'cardboard-box',
+    names: { is: ['Pappakassi', 'kassi', 'bylgjupappi'], en: ['Cardboard box', 'cardboard'] },
+    category: 'Pappi',
+    notes: ['Brjóttu kassann saman og fjarlægðu frauðplast.'],
+    takeToStation: false,
+  },
+  {
+    id: 'egg-carton',
+    names: { is: ['Eggjabakki'], en: ['Egg carton', 'egg box'] },
+    category: 'Pappi',
+    notes: ['Eggjabakkar úr plasti fara í plast.'],
+    takeToStation: false,
+  },
+
+  // Plast
+  {
+    id: 'plastic-bag',
+    names: { is: ['Plastpoki', 'innkaupapoki', 'plastfilma'], en: ['Plastic bag', 'shopping bag', 'plastic film', 'cling film'] },
+    category: 'Plast',
+    notes: [],
+    takeToStation: false,
+  },
+  {
+    id: 'yoghurt-cup',
+    names: { is: ['Skyrdós', 'jógúrtdós', 'plastdós', 'plastbakki'], en: ['Yoghurt cup', 'skyr cup', 'plastic tub', 'plastic tray'] },
+    category: 'Plast',
+    notes: ['Skolaðu dósina.', 'Álloki fer í málm.'],
+    takeToStation: false,
+  },
+  {
+    id: 'crisp-bag',
+    names: { is: ['Snakkpoki', 'flögupoki', 'sælgætisbréf'], en: ['Crisp bag', 'chips bag', 'candy wrapper'] },
+    category: 'Plast',
+    notes: [],
+    takeToStation: false,
+  },
+  {
+    id: 'deposit-bottle',
+    names: { is: ['Gosflaska', 'plastflaska', 'drykkjarflaska', 'dósir með skilagjaldi'], en: ['Soda bottle', 'plastic bottle', 'drink bottle', 'deposit bottle'] },
+    category: 'Plast',
+    notes: ['Drykkjarumbúðir með skilagjaldi má fara með í Endurvinnsluna gegn greiðslu.'],
+    takeToStation: false,
+  },
+
+  // Málmur
+  {
+    id: 'tin-can',
+    names: { is: ['Niðursuðudós', 'dós', 'blikkdós'], en: ['Tin can', 'food can', 'can'] },
+    category: 'Málmur',
+    notes: ['Skolaðu dósina.'],
+    takeToStation: false,
+  },
+  {
+    id: 'aluminium-foil',
+    names: { is: ['Álpappír', 'álbakki', 'sprittkerti'], en: ['Aluminium foil', 'tin foil', 'foil tray', 'tealight'] },
+    category: 'Málmur',
+    notes: ['Krumpaðu álpappír saman í kúlu.', 'Fjarlægðu vaxið úr sprittkertum.'],
+    takeToStation: false,
+  },
+  {
+    id: 'coffee-capsule',
+    names: { is: ['Kaffihylki', 'kaffihylki úr áli'], en: ['Coffee capsule', 'coffee pod'] },
+    category: 'Málmur',
+    notes: ['Á aðeins við um álhylki.', 'Kaffikorgurinn fer í lífrænt.'],
+    takeToStation: false,
+  },
+
+  // Gler
+  {
+    id: 'glass-jar',
+    names: { is: ['Glerkrukka', 'sultukrukka', 'krukka'], en: ['Glass jar', 'jam jar', 'jar'] },
+    category: 'Gler',
+    notes: ['Skolaðu krukkuna.', 'Málmlokið fer í málm.'],
+    takeToStation: false,
+  },
+  {
+    id: 'glass-bottle',
+    names: { is: ['Glerflaska', 'vínflaska', 'bjórflaska'], en: ['Glass bottle', 'wine bottle', 'beer bottle'] },
+    category: 'Gler',
+    notes: ['Flöskur með skilagjaldi má fara með í Endurvinnsluna.'],
+    takeToStation: false,
+  },
+
+  // Lífrænt
+  {
+    id: 'food-scraps',
+    names: { is: ['Matarleifar', 'bananahýði', 'ávaxtahýði', 'grænmetisafgangar'], en: ['Food scraps', 'banana peel', 'fruit peel', 'leftovers'] },
+    category: 'Lífrænt',
+    notes: ['Notaðu bréfpoka undir lífrænan úrgang.'],
+    takeToStation: false,
+  },
+  {
+    id: 'coffee-grounds',
+    names: { is: ['Kaffikorgur', 'kaffisía', 'tepoki'], en: ['Coffee grounds', 'coffee filter', 'tea bag'] },
+    category: 'Lífrænt',
+    notes: [],
+    takeToStation: false,
+  },
+  {
+    id: 'eggshell',
+    names: { is: ['Eggjaskurn'], en: ['Eggshell'] },
+    category: 'Lífrænt',
+    notes: [],
+    takeToStation: false,
+  },
+  {
+    id: 'paper-towel',
+    names: { is: ['Eldhúspappír', 'servíetta', 'munnþurrka'], en: ['Paper towel', 'napkin', 'kitchen roll'] },
+    category: 'Lífrænt',
+    notes: ['Pappír með hreinsiefnum fer í almennt sorp.'],
+    takeToStation: false,
+  },
+
+  // Almennt sorp
+  {
+    id: 'diaper',
+    names: { is: ['Bleyja', 'bleiur', 'dömubindi'], en: ['Diaper', 'nappy', 'sanitary pad'] },
+    category: 'Almennt sorp',
+    notes: [],
+    takeToStation: false,
+  },
+  {
+    id: 'vacuum-bag',
+    names: { is: ['Ryksugupoki', 'ryk'], en: ['Vacuum cleaner bag', 'dust'] },
+    category: 'Almennt sorp',
+    notes: [],
+    takeToStation: false,
+  },
+  {
+    id: 'toothbrush',
+    names: { is: ['Tannbursti'], en: ['Toothbrush'] },
+    category: 'Almennt sorp',
+    notes: [],
+    takeToStation: false,
+  },
+  {
+    id: 'paper-cup',
+    names: { is: ['Pappamál', 'kaffimál'], en: ['Paper cup', 'coffee cup'] },
+    category: 'Almennt sorp',
+    notes: ['Plasthúðin gerir málið óendurvinnanlegt.', 'Plastlokið fer í plast.'],
+    takeToStation: false,
+  },
+
+  // Gámastöð
+  {
+    id: 'battery',
+    names: { is: ['Rafhlaða', 'rafhlöður', 'batterí', 'hleðslurafhlaða'], en: ['Battery', 'batteries', 'rechargeable battery'] },
+    category: null,
+    notes: ['Límdu fyrir skautin á lithium-rafhlöðum.', 'Margar verslanir taka líka við rafhlöðum.'],
+    takeToStation: true,
+    stationMaterial: 'Rafhlöður',
+  },
+  {
+    id: 'small-electronics',
+    names: { is: ['Raftæki', 'farsími', 'sími', 'hleðslutæki', 'snúra', 'brauðrist'], en: ['Electronics', 'mobile phone', 'phone', 'charger', 'cable', 'toaster'] },
+    category: null,
+    notes: ['Öll tæki með snúru eða rafhlöðu fara á gámastöð.'],
+    takeToStation: true,
+    stationMaterial: 'Raftæki',
+  },
+  {
+    id: 'light-bulb',
+    names: { is: ['Ljósapera', 'sparpera', 'flúrpera', 'LED-pera'], en: ['Light bulb', 'energy saving bulb', 'fluorescent tube', 'LED bulb'] },
+    category: null,
+    notes: ['Sparperur og flúrperur innihalda kvikasilfur og teljast spilliefni.'],
+    takeToStation: true,
+    stationMaterial: 'Ljósaperur',
+  },
+  {
+    id: 'paint',
+    names: { is: ['Málning', 'lakk', 'leysiefni', 'spilliefni'], en: ['Paint', 'varnish', 'solvent', 'hazardous waste'] },
+    category: null,
+    notes: ['Skilaðu í upprunalegum umbúðum.'],
+    takeToStation: true,
+    stationMaterial: 'Spilliefni',
+  },
+  {
+    id: 'textiles',
+    names: { is: ['Föt', 'fatnaður', 'textíll', 'skór', 'rúmföt'], en: ['Clothes', 'clothing', 'textiles', 'shoes', 'bedding'] },
+    category: null,
+    notes: ['Heilleg föt má gefa í fatagáma Rauða krossins.', 'Settu textíl í lokaðan poka.'],
+    takeToStation: true,
+    stationMaterial: 'Textíll',
+  },
+  {
+    id: 'ceramics',
+    names: { is: ['Drykkjarglas', 'postulín', 'spegill', 'rúðugler', 'leirtau'], en: ['Drinking glass', 'porcelain', 'mirror', 'window glass', 'ceramics'] },
+    category: null,
+    notes: ['Fer í grófan úrgang / steinefni á gámastöð, ekki í glertunnu.'],
+    takeToStation: true,
+    stationMaterial: 'Steinefni',
+  },
+  {
+    id: 'furniture',
+    names: { is: ['Húsgögn', 'sófi', 'dýna', 'stóll'], en: ['Furniture', 'sofa', 'mattress', 'chair'] },
+    category: null,
+    notes: ['Nothæf húsgögn má gefa í Góða hirðinn.'],
+    takeToStation: true,
+    stationMaterial: 'Húsgögn',
+  },
+  {
+    id: 'garden-waste',
+    names: { is: ['Garðaúrgangur', 'greinar', 'gras', 'jólatré'], en: ['Garden waste', 'branches', 'grass cuttings', 'christmas tree'] },
+    category: null,
+    notes: [],
+    takeToStation: true,
+    stationMaterial: 'Garðaúrgangur',
+  },
+  {
+    id: 'ink-cartridge',
+    names: { is: ['Blekhylki', 'prenthylki', 'tónerhylki'], en: ['Ink cartridge', 'toner cartridge'] },
+    category: null,
+    notes: [],
+    takeToStation: true,
+    stationMaterial: 'Blekhylki',
+  },
+  {
+    id: 'medicine',
+    names: { is: ['Lyf', 'lyfjaafgangar', 'töflur'], en: ['Medicine', 'medication', 'pills'] },
+    category: null,
+    notes: ['Skilaðu lyfjum í næsta apótek.'],
+    takeToStation: false,
+  },
+];
@@ -0,0 +1,260 @@
+import { Messages } from './is';
+
+const count = (n: number, one: string, other: string) => `${n} ${n === 1 ? one : other}`;
+
+export const en: Messages = {
+  app: {
+    title: 'Litla Sorpa',
+    tagline: 'Ask me where your rubbish goes.',
+    settings: 'Settings',
+    history: 'Past conversations',
+  },
+  status: {
+    connected: 'Live connection active',
+    reconnecting: 'Reconnecting...',
+    ready: 'Ready to connect',
+    stageReconnecting: 'Connection lost, retrying...',
+    stageIdle: "Tap 'Start conversation'...",
+    offline: 'No connection',
+    stageOffline: 'No connection. Common items are answered from the sorting catalogue.',
+  },
+  activity: {
+    idle: 'Not connected',
+    listening: 'Listening',
+    thinking: 'Thinking',
+    speaking: 'Speaking',
+  },
+  controls: {
+    start: 'Start conversation',
+    startChat: 'Start chat',
+    switchToText: 'Switch to text',
+    switchToVoice: 'Switch to voice',
+    end: 'End conversation',
+    holdToTalkHint: 'Hold while you speak',
+    holdToTalk: 'Hold to talk',
+    listening: 'Listening...',
+    sendPhoto: 'Send photo',
+    scanBarcode: 'Scan barcode',
+    cameraOn: 'Turn camera on',
+    cameraOff: 'Turn camera off',
+    messagePlaceholder: 'Type a message...',
+    send: 'Send',
+    inputModes: {
+      vad: 'Hands-free',
+      'push-to-talk': 'Hold to talk',
+    },
+    conversationModes: {
+      voice: 'Voice',
+      text: 'Text',
+    },
+  },
+  hints: {
+    heading: 'Try asking',
+    examples: ['"Where does this pizza box go?"', '"Can glass be recycled?"'],
+  },
+  log: {
+    preparingAudio: 'Setting up audio...',
+    microphone: (description) => `Microphone: ${description}`,
+    connecting: 'Connecting to Gemini Live...',
+    reconnecting: (attempt) => `Connection lost. Retrying (${attempt})...`,
+    gaveUp: 'Could not reconnect.',
+    reconnected: 'Connection restored.',
+    connected: 'Connected! Start talking.',
+    connectedText: 'Connected! Type your question.',
+    switchedToText: 'Switched to text. The conversation continues.',
+    switchedToVoice: 'Switched to voice. The conversation continues.',
+    turnComplete: 'Answer finished.',
+    interrupted: 'Interrupted.',
+    connectFailed: 'Connection failed.',
+    userEnded: 'Conversation ended by user.',
+    preparingImage: 'Preparing photo...',
+    imageSent: (kilobytes) => `Sent photo for analysis (${kilobytes} KB)`,
+    photoItemsFound: (n) => `Found ${count(n, 'item', 'items')} in the photo.`,
+    imageFailed: 'Could not send the photo.',
+    scanningBarcode: 'Reading barcode...',
+    barcodeScanned: (code) => `Barcode ${code}`,
+    barcodeNotFound: 'No barcode found. Take the photo closer and straight at the barcode.',
+    barcodeUnknown: 'The product is not in the product table. The assistant will judge the packaging from the photo.',
+    wentOffline: 'Connection lost. Photos will be queued.',
+    backOnline: 'Back online.',
+    photoQueued: 'Photo queued. It will be sent once there is a connection.',
+    sendingQueued: (n) => `Sending ${count(n, 'queued photo', 'queued photos')}...`,
+    queuedPhotoSent: 'Queued photo sent',
+    cameraOn: 'Camera on. Point it at the item.',
+    cameraOff: 'Camera off.',
+    cameraFailed: 'Could not open the camera.',
+    sentImage: 'Sent photo',
+  },
+  limits: {
+    idleWarning: (seconds) => `It has been quiet for a while. The conversation ends in ${seconds} seconds unless you say something.`,
+    maxLengthWarning: (seconds) => `The conversation reaches its maximum length in ${seconds} seconds.`,
+    idleEnded: 'Conversation ended after inactivity.',
+    maxLengthReached: 'Maximum conversation length reached.',
+  },
+  errors: {
+    liveToken: {
+      unreachable: 'Cannot reach the server.',
+      'rate-limited': 'Too many connections right now. Please try again shortly.',
+      'server-error': 'The server could not open a connection.',
+      'invalid-response': 'Invalid response from the server.',
+    },
+    image: {
+      unreadable: 'Could not read the photo. Try JPEG or PNG.',
+      unsupported: 'This browser cannot process images.',
+    },
+    microphone: {
+      'permission-denied': 'The browser is not allowed to use the microphone. Allow it in the browser settings and try again.',
+      'no-device': 'No microphone found. Connect one or choose another in settings.',
+      'device-in-use': 'The microphone is being used by another app. Close it and try again.',
+      'insecure-context': 'The microphone only works over a secure (https) connection. Open the page over https.',
+      unknown: 'Could not open the microphone.',
+    },
+  },
+  verdict: {
+    station: 'Recycling station',
+    alsoStation: 'Can also go to a recycling station',
+    confidence: 'How sure Litla Sorpa is',
+    categories: {
+      'Plast': 'Plastic',
+      'Pappi': 'Paper & cardboard',
+      'Málmur': 'Metal',
+      'Gler': 'Glass',
+      'Lífrænt': 'Food waste',
+      'Almennt sorp': 'General waste',
+    },
+  },
+  chat: {
+    empty: 'Ask about any item and the answer appears here.',
+    you: 'You',
+    thinking: 'Litla Sorpa is typing...',
+  },
+  photo: {
+    itemCount: (n) => `${count(n, 'item', 'items')} in the photo`,
+    tapHint: 'Tap a box to see where the item goes.',
+    close: 'Hide',
+  },
+  packaging: {
+    barcode: (code) => `Barcode ${code}`,
+    fromTable: 'From product table',
+    fromModel: 'Judged from photo',
+    close: 'Hide',
+  },
+  offline: {
+    title: 'Offline',
+    description: 'Look an item up in the sorting catalogue. Photos you take are sent to the assistant once there is a connection.',
+    searchPlaceholder: 'E.g. battery or milk carton',
+    search: 'Look up',
+    notFound: 'The item is not in the sorting catalogue. Take a photo and ask once you are back online.',
+    didYouMean: 'Did you mean:',
+    fromCatalogue: 'From the catalogue',
+    takePhoto: 'Take photo',
+    scanBarcode: 'Scan barcode',
+    queued: (n) => `${count(n, 'photo', 'photos')} waiting to be sent`,
+  },
+  stations: {
+    heading: 'Recycling stations',
+    hide: 'Hide',
+    open: 'Open',
+    closed: 'Closed',
+    todayHours: (open, close) => `Today: ${open}–${close}`,
+    closedToday: 'Closed today',
+    openInMap: 'Open in map',
+  },
+  usage: {
+    title: 'Conversation summary',
+    close: 'Close',
+    connectedTime: 'Connected time',
+    audioSent: 'Audio sent',
+    audioReceived: 'Audio received',
+    imagesSent: 'Photos sent',
+    cameraFrames: 'Camera frames',
+    tokens: 'Tokens (in / out)',
+    seconds: (seconds) => `${seconds} s`,
+  },
+  history: {
+    title: 'Past conversations',
+    back: 'Back',
+    close: 'Close',
+    loadFailed: 'Could not load the history.',
+    deleteFailed: 'Could not delete the conversation.',
+    empty: 'No saved conversations.',
+    summary: (messages, verdicts, images) =>
+      [count(messages, 'message', 'messages'), count(verdicts, 'verdict', 'verdicts'), count(images, 'photo', 'photos')].join(' · '),
+    downloadMarkdown: 'Download text (.md)',
+    downloadJson: 'Download JSON',
+    delete: 'Delete',
+    confirmDelete: 'Delete this conversation?',
+  },
+  settings: {
+    title: 'Settings',
+    close: 'Close',
+    appliesNextConnection: 'Changes take effect on the next connection.',
+    uiLanguage: 'Interface language',
+    uiLanguageAuto: 'Automatic (browser language)',
+    voice: 'Voice',
+    replyLanguage: 'Answer language',
+    speakingStyle: 'Speaking style',
+    speakingStyles: {
+      friendly: 'Warm and short',
+      concise: 'Very brief',
+      detailed: 'Detailed and calm',
+    },
+    model: 'Model',
+    cameraFrameRate: 'Camera frames per second',
+    idleTimeout: 'Disconnect after inactivity',
+    never: 'Never',
+    minutes: (minutes) => `${minutes} min`,
+    maxSession: 'Maximum conversation length',
+    useLocation: 'Use my location to find the nearest recycling station',
+    multiItemPhotos: 'Identify every item in photos',
+    openAnalytics: 'Statistics for staff',
+  },
+  microphone: {
+    heading: 'Microphone',
+    device: 'Device',
+    defaultDevice: 'Default microphone',
+    numberedDevice: (index) => `Microphone ${index}`,
+    echoCancellation: 'Echo cancellation',
+    noiseSuppression: 'Noise suppression',
+    autoGainControl: 'Automatic gain',
+    test: 'Test microphone',
+    stopTest: 'Stop test',
+    heard: 'The microphone can hear you.',
+    speakNow: 'Say something to test...',
+  },
+  analytics: {
+    title: 'Question statistics',
+    close: 'Close',
+    privacy: 'Only counts are kept on this device: item names, categories and languages. No conversations, photos or times.',
+    since: (date) => `Since ${date}`,
+    sessions: 'Conversations',
+    itemsClassified: 'Items classified',
+    uncertainCount: 'Uncertain answers',
+    categories: 'Categories',
+    perDay: 'Classifications per day (30 days)',
+    replyLanguages: 'Reply language',
+    uiLanguages: 'Interface language',
+    topItems: 'Most asked items',
+    uncertain: 'Answers to review',
+    empty: 'No data yet.',
+    columns: {
+      item: 'Item',
+      count: 'Count',
+      category: 'Category',
+      lowConfidence: 'Uncertain',
+      lastSeen: 'Last seen',
+      date: 'Date',
+      reason: 'Reason',
+      confidence: 'Confidence',
+      language: 'Lang.',
+    },
+    reasons: {
+      'low-confidence': 'Low confidence',
+      'asked-for-details': 'Asked for details',
+    },
+    exportItems: 'Download items (.csv)',
+    exportUncertain: 'Download uncertain answers (.csv)',
+    reset: 'Clear statistics',
+    confirmReset: 'Delete all statistics on this device?',
+  },
+};
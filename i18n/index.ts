@@ -0,0 +1,67 @@
+import { createContext, useContext } from 'react';
+import { UiLanguage } from '../types';
+import { UI_LANGUAGES } from '../utils/settings';
+import { en } from './en';
+import { is, Messages } from './is';
+import { pl } from './pl';
+
+export type { Messages } from './is';
+
+export const CATALOGUES: Record<UiLanguage, Messages> = { is, en, pl };
+
+// Used for dates and numbers when the browser gives no region for the language
+const DEFAULT_LOCALES: Record<UiLanguage, string> = {
+  is: 'is-IS',
+  en: 'en-GB',
+  pl: 'pl-PL',
+};
+
+const primarySubtag = (tag: string) => tag.split('-')[0].toLowerCase();
+
+const isUiLanguage = (value: string): value is UiLanguage => (UI_LANGUAGES as string[]).includes(value);
+
+/**
+ * First supported language in the browser's preference list. Visitors whose
+ * languages are all unsupported get English; no preference at all means Icelandic.
+ */
+export function detectLanguage(preferred: readonly string[]): UiLanguage {
+  if (preferred.length === 0) return 'is';
+  const match = preferred.map(primarySubtag).find(isUiLanguage);
+  return match ?? 'en';
+}
+
+/** Keeps the browser's region (en-US vs en-GB) when it matches the chosen language. */
+export function resolveLocale(language: UiLanguage, preferred: readonly string[]): string {
+  return preferred.find(tag => primarySubtag(tag) === language) ?? DEFAULT_LOCALES[language];
+}
+
+export interface I18n {
+  language: UiLanguage;
+  locale: string; // BCP 47 tag passed to Intl
+  t: Messages;
+  formatNumber: (value: number, options?: Intl.NumberFormatOptions) => string;
+  formatDateTime: (timestamp: number, options?: Intl.DateTimeFormatOptions) => string;
+  formatTime: (timestamp: number) => string;
+}
+
+export function createI18n(language: UiLanguage, preferred: readonly string[] = []): I18n {
+  const locale = resolveLocale(language, preferred);
+  return {
+    language,
+    locale,
+    t: CATALOGUES[language],
+    formatNumber: (value, options) => value.toLocaleString(locale, options),
+    formatDateTime: (timestamp, options = { dateStyle: 'medium', timeStyle: 'short' }) =>
+      new Date(timestamp).toLocaleString(locale, options),
+    formatTime: (timestamp) => new Date(timestamp).toLocaleTimeString(locale, { hour: '2-digit', minute: '2-digit' }),
+  };
+}
+
+/** Interface language from the settings, following the browser when set to 'auto'. */
+export function i18nForSetting(setting: UiLanguage | 'auto', preferred: readonly string[]): I18n {
+  return createI18n(setting === 'auto' ? detectLanguage(preferred) : setting, preferred);
+}
+
+export const I18nContext = createContext<I18n>(createI18n('is'));
+
+export const useI18n = (): I18n => useContext(I18nContext);
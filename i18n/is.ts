@@ -0,0 +1,264 @@
+import { ConversationMode, InputMode, SpeakingStyle, UncertainReason, WasteCategory } from '../types';
+import { LiveTokenErrorCode } from '../services/liveToken';
+import { ImagePipelineErrorCode } from '../utils/imagePipeline';
+import { MicrophoneErrorCode } from '../utils/microphone';
+
+// Icelandic is the source catalogue: its shape is the Messages type every other bundle must match
+export const is = {
+  app: {
+    title: 'Litla Sorpa',
+    tagline: 'Spurðu mig hvar á að henda ruslinu.',
+    settings: 'Stillingar',
+    history: 'Fyrri samtöl',
+  },
+  status: {
+    connected: 'Bein tenging virk',
+    reconnecting: 'Endurtengist...',
+    ready: 'Tilbúin að tengjast',
+    stageReconnecting: 'Tenging rofnaði, reyni aftur...',
+    stageIdle: "Smelltu á 'Byrja samtal'...",
+    offline: 'Engin nettenging',
+    stageOffline: 'Engin nettenging. Algengir hlutir eru svaraðir úr flokkunarskránni.',
+  },
+  activity: {
+    idle: 'Ótengt',
+    listening: 'Hlusta',
+    thinking: 'Hugsa',
+    speaking: 'Tala',
+  },
+  controls: {
+    start: 'Byrja samtal',
+    startChat: 'Byrja spjall',
+    switchToText: 'Skipta yfir í texta',
+    switchToVoice: 'Skipta yfir í tal',
+    end: 'Ljúka samtali',
+    holdToTalkHint: 'Haltu inni á meðan þú talar',
+    holdToTalk: 'Haltu inni',
+    listening: 'Hlusta...',
+    sendPhoto: 'Senda mynd',
+    scanBarcode: 'Skanna strikamerki',
+    cameraOn: 'Kveikja á myndavél',
+    cameraOff: 'Slökkva á myndavél',
+    messagePlaceholder: 'Skrifaðu skilaboð...',
+    send: 'Senda',
+    inputModes: {
+      vad: 'Sjálfvirk hlustun',
+      'push-to-talk': 'Haltu inni til að tala',
+    } satisfies Record<InputMode, string>,
+    conversationModes: {
+      voice: 'Tal',
+      text: 'Texti',
+    } satisfies Record<ConversationMode, string>,
+  },
+  hints: {
+    heading: 'Prófaðu að spyrja',
+    examples: ['"Hvert fer þessi pítsukassi?"', '"Er hægt að endurvinna gler?"'],
+  },
+  log: {
+    preparingAudio: 'Frumstilli hljóðbúnað...',
+    microphone: (description: string) => `Hljóðnemi: ${description}`,
+    connecting: 'Tengist Gemini Live...',
+    reconnecting: (attempt: number) => `Tenging rofnaði. Reyni aftur (${attempt})...`,
+    gaveUp: 'Ekki tókst að endurtengjast.',
+    reconnected: 'Tenging komin aftur.',
+    connected: 'Tenging komin! Byrjaðu að tala.',
+    connectedText: 'Tenging komin! Skrifaðu spurninguna þína.',
+    switchedToText: 'Skipt yfir í texta. Samtalið heldur áfram.',
+    switchedToVoice: 'Skipt yfir í tal. Samtalið heldur áfram.',
+    turnComplete: 'Svari lokið.',
+    interrupted: 'Gripið fram í.',
+    connectFailed: 'Tenging mistókst.',
+    userEnded: 'Notandi endaði setu.',
+    preparingImage: 'Undirbý mynd...',
+    imageSent: (kilobytes: number) => `Sendi mynd til greiningar (${kilobytes} KB)`,
+    photoItemsFound: (count: number) => `Fann ${count} ${count % 10 === 1 && count % 100 !== 11 ? 'hlut' : 'hluti'} á myndinni.`,
+    imageFailed: 'Mistókst að senda mynd.',
+    scanningBarcode: 'Les strikamerki...',
+    barcodeScanned: (code: string) => `Strikamerki ${code}`,
+    barcodeNotFound: 'Ekkert strikamerki fannst. Taktu myndina nær og beint á merkið.',
+    barcodeUnknown: 'Varan er ekki í vöruskránni. Aðstoðarmaðurinn metur umbúðirnar af myndinni.',
+    wentOffline: 'Nettenging rofnaði. Myndir fara í biðröð.',
+    backOnline: 'Nettenging komin aftur.',
+    photoQueued: 'Mynd sett í biðröð. Hún verður send þegar tenging næst.',
+    sendingQueued: (count: number) => `Sendi ${count} ${count % 10 === 1 && count % 100 !== 11 ? 'mynd' : 'myndir'} úr biðröð...`,
+    queuedPhotoSent: 'Mynd úr biðröð send',
+    cameraOn: 'Myndavél í gangi. Beindu henni að hlutnum.',
+    cameraOff: 'Slökkt á myndavél.',
+    cameraFailed: 'Ekki tókst að opna myndavél.',
+    sentImage: 'Send mynd',
+  },
+  limits: {
+    idleWarning: (seconds: number) => `Ekkert hefur heyrst í smá stund. Samtalinu lýkur eftir ${seconds} sekúndur nema þú segir eitthvað.`,
+    maxLengthWarning: (seconds: number) => `Samtalið nær hámarkslengd eftir ${seconds} sekúndur.`,
+    idleEnded: 'Samtali lokið vegna aðgerðaleysis.',
+    maxLengthReached: 'Hámarkslengd samtals náð.',
+  },
+  errors: {
+    liveToken: {
+      unreachable: 'Næ ekki sambandi við þjóninn.',
+      'rate-limited': 'Of margar tengingar í bili. Reyndu aftur eftir smástund.',
+      'server-error': 'Þjónninn gat ekki opnað tengingu.',
+      'invalid-response': 'Ógilt svar frá þjóninum.',
+    } satisfies Record<LiveTokenErrorCode, string>,
+    image: {
+      unreadable: 'Ekki tókst að lesa myndina. Prófaðu JPEG eða PNG.',
+      unsupported: 'Vafrinn styður ekki myndvinnslu.',
+    } satisfies Record<ImagePipelineErrorCode, string>,
+    microphone: {
+      'permission-denied': 'Vafrinn hefur ekki leyfi til að nota hljóðnemann. Leyfðu hljóðnema í stillingum vafrans og reyndu aftur.',
+      'no-device': 'Enginn hljóðnemi fannst. Tengdu hljóðnema eða veldu annan í stillingum.',
+      'device-in-use': 'Hljóðneminn er í notkun í öðru forriti. Lokaðu því og reyndu aftur.',
+      'insecure-context': 'Hljóðnemi virkar aðeins á öruggri tengingu (https). Opnaðu síðuna í gegnum https.',
+      unknown: 'Ekki tókst að opna hljóðnemann.',
+    } satisfies Record<MicrophoneErrorCode, string>,
+  },
+  verdict: {
+    station: 'Gámastöð',
+    alsoStation: 'Einnig hægt að fara með á gámastöð',
+    confidence: 'Hversu viss Litla Sorpa er',
+    categories: {
+      'Plast': 'Plast',
+      'Pappi': 'Pappi',
+      'Málmur': 'Málmur',
+      'Gler': 'Gler',
+      'Lífrænt': 'Lífrænt',
+      'Almennt sorp': 'Almennt sorp',
+    } satisfies Record<WasteCategory, string>,
+  },
+  chat: {
+    empty: 'Spurðu um hvaða hlut sem er og svarið birtist hér.',
+    you: 'Þú',
+    thinking: 'Litla Sorpa skrifar...',
+  },
+  photo: {
+    itemCount: (count: number) => `${count} ${count % 10 === 1 && count % 100 !== 11 ? 'hlutur' : 'hlutir'} á myndinni`,
+    tapHint: 'Ýttu á ramma til að sjá hvert hluturinn fer.',
+    close: 'Fela',
+  },
+  packaging: {
+    barcode: (code: string) => `Strikamerki ${code}`,
+    fromTable: 'Úr vöruskrá',
+    fromModel: 'Metið af mynd',
+    close: 'Fela',
+  },
+  offline: {
+    title: 'Án nettengingar',
+    description: 'Flettu hlut upp í flokkunarskránni. Myndir sem þú tekur eru sendar aðstoðarmanninum þegar tenging næst.',
+    searchPlaceholder: 'T.d. rafhlaða eða mjólkurferna',
+    search: 'Fletta upp',
+    notFound: 'Hluturinn er ekki í flokkunarskránni. Taktu mynd og spurðu þegar tenging næst.',
+    didYouMean: 'Áttirðu við:',
+    fromCatalogue: 'Úr flokkunarskrá',
+    takePhoto: 'Taka mynd',
+    scanBarcode: 'Skanna strikamerki',
+    queued: (count: number) => `${count} ${count % 10 === 1 && count % 100 !== 11 ? 'mynd bíður' : 'myndir bíða'} sendingar`,
+  },
+  stations: {
+    heading: 'Gámastöðvar',
+    hide: 'Fela',
+    open: 'Opið',
+    closed: 'Lokað',
+    todayHours: (open: string, close: string) => `Í dag: ${open}–${close}`,
+    closedToday: 'Lokað í dag',
+    openInMap: 'Opna í korti',
+  },
+  usage: {
+    title: 'Samantekt samtals',
+    close: 'Loka',
+    connectedTime: 'Tengdur tími',
+    audioSent: 'Hljóð sent',
+    audioReceived: 'Hljóð móttekið',
+    imagesSent: 'Myndir sendar',
+    cameraFrames: 'Myndavélarrammar',
+    tokens: 'Tókar (inn / út)',
+    seconds: (seconds: string) => `${seconds} sek.`,
+  },
+  history: {
+    title: 'Fyrri samtöl',
+    back: 'Til baka',
+    close: 'Loka',
+    loadFailed: 'Ekki tókst að sækja söguna.',
+    deleteFailed: 'Ekki tókst að eyða samtalinu.',
+    empty: 'Engin vistuð samtöl.',
+    summary: (messages: number, verdicts: number, images: number) =>
+      `${messages} skilaboð · ${verdicts} flokkanir · ${images} myndir`,
+    downloadMarkdown: 'Sækja texta (.md)',
+    downloadJson: 'Sækja JSON',
+    delete: 'Eyða',
+    confirmDelete: 'Eyða þessu samtali?',
+  },
+  settings: {
+    title: 'Stillingar',
+    close: 'Loka',
+    appliesNextConnection: 'Breytingar taka gildi við næstu tengingu.',
+    uiLanguage: 'Tungumál viðmóts',
+    uiLanguageAuto: 'Sjálfvirkt (tungumál vafra)',
+    voice: 'Rödd',
+    replyLanguage: 'Tungumál svara',
+    speakingStyle: 'Talstíll',
+    speakingStyles: {
+      friendly: 'Hlýleg og stutt',
+      concise: 'Mjög stuttorð',
+      detailed: 'Ítarleg og róleg',
+    } satisfies Record<SpeakingStyle, string>,
+    model: 'Líkan',
+    cameraFrameRate: 'Myndir á sekúndu í myndavél',
+    idleTimeout: 'Aftengja eftir aðgerðaleysi',
+    never: 'Aldrei',
+    minutes: (minutes: number) => `${minutes} mín.`,
+    maxSession: 'Hámarkslengd samtals',
+    useLocation: 'Nota staðsetningu til að finna næstu gámastöð',
+    multiItemPhotos: 'Greina alla hluti á myndum',
+    openAnalytics: 'Tölfræði fyrir starfsfólk',
+  },
+  microphone: {
+    heading: 'Hljóðnemi',
+    device: 'Tæki',
+    defaultDevice: 'Sjálfgefinn hljóðnemi',
+    numberedDevice: (index: number) => `Hljóðnemi ${index}`,
+    echoCancellation: 'Bergmálseyðing',
+    noiseSuppression: 'Suðdeyfing',
+    autoGainControl: 'Sjálfvirk styrkstilling',
+    test: 'Prófa hljóðnema',
+    stopTest: 'Stöðva prófun',
+    heard: 'Hljóðneminn heyrir í þér.',
+    speakNow: 'Segðu eitthvað til að prófa...',
+  },
+  analytics: {
+    title: 'Tölfræði fyrirspurna',
+    close: 'Loka',
+    privacy: 'Aðeins talningar eru geymdar á þessu tæki: heiti hluta, flokkar og tungumál. Engin samtöl, myndir eða tímasetningar.',
+    since: (date: string) => `Frá ${date}`,
+    sessions: 'Samtöl',
+    itemsClassified: 'Flokkaðir hlutir',
+    uncertainCount: 'Óviss svör',
+    categories: 'Flokkar',
+    perDay: 'Flokkanir á dag (30 dagar)',
+    replyLanguages: 'Tungumál svara',
+    uiLanguages: 'Tungumál viðmóts',
+    topItems: 'Algengustu hlutir',
+    uncertain: 'Svör sem þarf að skoða',
+    empty: 'Engin gögn enn.',
+    columns: {
+      item: 'Hlutur',
+      count: 'Fjöldi',
+      category: 'Flokkur',
+      lowConfidence: 'Óviss',
+      lastSeen: 'Síðast',
+      date: 'Dags.',
+      reason: 'Ástæða',
+      confidence: 'Vissa',
+      language: 'Mál',
+    },
+    reasons: {
+      'low-confidence': 'Lítil vissa',
+      'asked-for-details': 'Bað um nánari upplýsingar',
+    } satisfies Record<UncertainReason, string>,
+    exportItems: 'Sækja hluti (.csv)',
+    exportUncertain: 'Sækja óviss svör (.csv)',
+    reset: 'Hreinsa tölfræði',
+    confirmReset: 'Eyða allri tölfræði á þessu tæki?',
+  },
+};
+
+export type Messages = typeof is;
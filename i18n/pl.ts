@@ -0,0 +1,269 @@
+import { Messages } from './is';
+
+const pluralRules = new Intl.PluralRules('pl-PL');
+
+// Polish has separate forms for 1, 2-4 (but not 12-14) and everything else
+const count = (n: number, forms: { one: string; few: string; many: string }) => {
+  const rule = pluralRules.select(n);
+  return `${n} ${rule === 'one' ? forms.one : rule === 'few' ? forms.few : forms.many}`;
+};
+
+export const pl: Messages = {
+  app: {
+    title: 'Litla Sorpa',
+    tagline: 'Zapytaj mnie, gdzie wyrzucić śmieci.',
+    settings: 'Ustawienia',
+    history: 'Poprzednie rozmowy',
+  },
+  status: {
+    connected: 'Połączenie na żywo aktywne',
+    reconnecting: 'Ponowne łączenie...',
+    ready: 'Gotowa do połączenia',
+    stageReconnecting: 'Połączenie przerwane, ponawiam...',
+    stageIdle: "Kliknij 'Rozpocznij rozmowę'...",
+    offline: 'Brak połączenia',
+    stageOffline: 'Brak połączenia. Popularne przedmioty są sprawdzane w katalogu segregacji.',
+  },
+  activity: {
+    idle: 'Rozłączono',
+    listening: 'Słucham',
+    thinking: 'Myślę',
+    speaking: 'Mówię',
+  },
+  controls: {
+    start: 'Rozpocznij rozmowę',
+    startChat: 'Rozpocznij czat',
+    switchToText: 'Przełącz na tekst',
+    switchToVoice: 'Przełącz na głos',
+    end: 'Zakończ rozmowę',
+    holdToTalkHint: 'Przytrzymaj podczas mówienia',
+    holdToTalk: 'Przytrzymaj',
+    listening: 'Słucham...',
+    sendPhoto: 'Wyślij zdjęcie',
+    scanBarcode: 'Skanuj kod kreskowy',
+    cameraOn: 'Włącz kamerę',
+    cameraOff: 'Wyłącz kamerę',
+    messagePlaceholder: 'Napisz wiadomość...',
+    send: 'Wyślij',
+    inputModes: {
+      vad: 'Automatyczne słuchanie',
+      'push-to-talk': 'Przytrzymaj, aby mówić',
+    },
+    conversationModes: {
+      voice: 'Głos',
+      text: 'Tekst',
+    },
+  },
+  hints: {
+    heading: 'Zapytaj na przykład',
+    examples: ['"Gdzie wyrzucić to pudełko po pizzy?"', '"Czy szkło można przetworzyć?"'],
+  },
+  log: {
+    preparingAudio: 'Przygotowuję dźwięk...',
+    microphone: (description) => `Mikrofon: ${description}`,
+    connecting: 'Łączę z Gemini Live...',
+    reconnecting: (attempt) => `Połączenie przerwane. Ponawiam (${attempt})...`,
+    gaveUp: 'Nie udało się ponownie połączyć.',
+    reconnected: 'Połączenie przywrócone.',
+    connected: 'Połączono! Zacznij mówić.',
+    connectedText: 'Połączono! Wpisz swoje pytanie.',
+    switchedToText: 'Przełączono na tekst. Rozmowa trwa dalej.',
+    switchedToVoice: 'Przełączono na głos. Rozmowa trwa dalej.',
+    turnComplete: 'Odpowiedź zakończona.',
+    interrupted: 'Przerwano.',
+    connectFailed: 'Połączenie nie powiodło się.',
+    userEnded: 'Użytkownik zakończył rozmowę.',
+    preparingImage: 'Przygotowuję zdjęcie...',
+    imageSent: (kilobytes) => `Wysłano zdjęcie do analizy (${kilobytes} KB)`,
+    photoItemsFound: (n) => `Znaleziono ${count(n, { one: 'przedmiot', few: 'przedmioty', many: 'przedmiotów' })} na zdjęciu.`,
+    imageFailed: 'Nie udało się wysłać zdjęcia.',
+    scanningBarcode: 'Odczytuję kod kreskowy...',
+    barcodeScanned: (code) => `Kod kreskowy ${code}`,
+    barcodeNotFound: 'Nie znaleziono kodu kreskowego. Zrób zdjęcie bliżej i na wprost kodu.',
+    barcodeUnknown: 'Produktu nie ma w tabeli produktów. Asystent oceni opakowanie na podstawie zdjęcia.',
+    wentOffline: 'Utracono połączenie. Zdjęcia trafią do kolejki.',
+    backOnline: 'Połączenie przywrócone.',
+    photoQueued: 'Zdjęcie dodane do kolejki. Zostanie wysłane po nawiązaniu połączenia.',
+    sendingQueued: (n) => `Wysyłanie ${count(n, { one: 'zdjęcia', few: 'zdjęć', many: 'zdjęć' })} z kolejki...`,
+    queuedPhotoSent: 'Wysłano zdjęcie z kolejki',
+    cameraOn: 'Kamera włączona. Skieruj ją na przedmiot.',
+    cameraOff: 'Kamera wyłączona.',
+    cameraFailed: 'Nie udało się otworzyć kamery.',
+    sentImage: 'Wysłane zdjęcie',
+  },
+  limits: {
+    idleWarning: (seconds) => `Od dłuższej chwili panuje cisza. Rozmowa zakończy się za ${seconds} s, jeśli nic nie powiesz.`,
+    maxLengthWarning: (seconds) => `Rozmowa osiągnie maksymalną długość za ${seconds} s.`,
+    idleEnded: 'Rozmowa zakończona z powodu braku aktywności.',
+    maxLengthReached: 'Osiągnięto maksymalną długość rozmowy.',
+  },
+  errors: {
+    liveToken: {
+      unreachable: 'Brak połączenia z serwerem.',
+      'rate-limited': 'Zbyt wiele połączeń. Spróbuj ponownie za chwilę.',
+      'server-error': 'Serwer nie mógł otworzyć połączenia.',
+      'invalid-response': 'Nieprawidłowa odpowiedź serwera.',
+    },
+    image: {
+      unreadable: 'Nie udało się odczytać zdjęcia. Spróbuj JPEG lub PNG.',
+      unsupported: 'Ta przeglądarka nie obsługuje przetwarzania obrazów.',
+    },
+    microphone: {
+      'permission-denied': 'Przeglądarka nie ma dostępu do mikrofonu. Zezwól na niego w ustawieniach przeglądarki i spróbuj ponownie.',
+      'no-device': 'Nie znaleziono mikrofonu. Podłącz mikrofon lub wybierz inny w ustawieniach.',
+      'device-in-use': 'Mikrofon jest używany przez inną aplikację. Zamknij ją i spróbuj ponownie.',
+      'insecure-context': 'Mikrofon działa tylko przez bezpieczne połączenie (https). Otwórz stronę przez https.',
+      unknown: 'Nie udało się otworzyć mikrofonu.',
+    },
+  },
+  verdict: {
+    station: 'Punkt zbiórki',
+    alsoStation: 'Można też oddać do punktu zbiórki',
+    confidence: 'Jak pewna jest Litla Sorpa',
+    categories: {
+      'Plast': 'Plastik',
+      'Pappi': 'Papier i tektura',
+      'Málmur': 'Metal',
+      'Gler': 'Szkło',
+      'Lífrænt': 'Odpady bio',
+      'Almennt sorp': 'Odpady zmieszane',
+    },
+  },
+  chat: {
+    empty: 'Zapytaj o dowolny przedmiot, a odpowiedź pojawi się tutaj.',
+    you: 'Ty',
+    thinking: 'Litla Sorpa pisze...',
+  },
+  photo: {
+    itemCount: (n) => `${count(n, { one: 'przedmiot', few: 'przedmioty', many: 'przedmiotów' })} na zdjęciu`,
+    tapHint: 'Dotknij ramki, aby zobaczyć, gdzie wyrzucić przedmiot.',
+    close: 'Ukryj',
+  },
+  packaging: {
+    barcode: (code) => `Kod kreskowy ${code}`,
+    fromTable: 'Z tabeli produktów',
+    fromModel: 'Ocenione ze zdjęcia',
+    close: 'Ukryj',
+  },
+  offline: {
+    title: 'Tryb offline',
+    description: 'Sprawdź przedmiot w katalogu segregacji. Zrobione zdjęcia zostaną wysłane do asystenta po nawiązaniu połączenia.',
+    searchPlaceholder: 'Np. bateria lub karton po mleku',
+    search: 'Sprawdź',
+    notFound: 'Tego przedmiotu nie ma w katalogu. Zrób zdjęcie i zapytaj po odzyskaniu połączenia.',
+    didYouMean: 'Czy chodziło o:',
+    fromCatalogue: 'Z katalogu',
+    takePhoto: 'Zrób zdjęcie',
+    scanBarcode: 'Skanuj kod kreskowy',
+    queued: (n) => `${count(n, { one: 'zdjęcie czeka', few: 'zdjęcia czekają', many: 'zdjęć czeka' })} na wysłanie`,
+  },
+  stations: {
+    heading: 'Punkty zbiórki',
+    hide: 'Ukryj',
+    open: 'Otwarte',
+    closed: 'Zamknięte',
+    todayHours: (open, close) => `Dziś: ${open}–${close}`,
+    closedToday: 'Dziś zamknięte',
+    openInMap: 'Otwórz na mapie',
+  },
+  usage: {
+    title: 'Podsumowanie rozmowy',
+    close: 'Zamknij',
+    connectedTime: 'Czas połączenia',
+    audioSent: 'Wysłany dźwięk',
+    audioReceived: 'Odebrany dźwięk',
+    imagesSent: 'Wysłane zdjęcia',
+    cameraFrames: 'Klatki z kamery',
+    tokens: 'Tokeny (wej. / wyj.)',
+    seconds: (seconds) => `${seconds} s`,
+  },
+  history: {
+    title: 'Poprzednie rozmowy',
+    back: 'Wstecz',
+    close: 'Zamknij',
+    loadFailed: 'Nie udało się wczytać historii.',
+    deleteFailed: 'Nie udało się usunąć rozmowy.',
+    empty: 'Brak zapisanych rozmów.',
+    summary: (messages, verdicts, images) => [
+      count(messages, { one: 'wiadomość', few: 'wiadomości', many: 'wiadomości' }),
+      count(verdicts, { one: 'klasyfikacja', few: 'klasyfikacje', many: 'klasyfikacji' }),
+      count(images, { one: 'zdjęcie', few: 'zdjęcia', many: 'zdjęć' }),
+    ].join(' · '),
+    downloadMarkdown: 'Pobierz tekst (.md)',
+    downloadJson: 'Pobierz JSON',
+    delete: 'Usuń',
+    confirmDelete: 'Usunąć tę rozmowę?',
+  },
+  settings: {
+    title: 'Ustawienia',
+    close: 'Zamknij',
+    appliesNextConnection: 'Zmiany zaczną obowiązywać przy następnym połączeniu.',
+    uiLanguage: 'Język interfejsu',
+    uiLanguageAuto: 'Automatycznie (język przeglądarki)',
+    voice: 'Głos',
+    replyLanguage: 'Język odpowiedzi',
+    speakingStyle: 'Styl mówienia',
+    speakingStyles: {
+      friendly: 'Ciepło i krótko',
+      concise: 'Bardzo zwięźle',
+      detailed: 'Szczegółowo i spokojnie',
+    },
+    model: 'Model',
+    cameraFrameRate: 'Klatki na sekundę z kamery',
+    idleTimeout: 'Rozłącz po bezczynności',
+    never: 'Nigdy',
+    minutes: (minutes) => `${minutes} min`,
+    maxSession: 'Maksymalna długość rozmowy',
+    useLocation: 'Użyj lokalizacji, aby znaleźć najbliższy punkt zbiórki',
+    multiItemPhotos: 'Rozpoznawaj wszystkie przedmioty na zdjęciach',
+    openAnalytics: 'Statystyki dla personelu',
+  },
+  microphone: {
+    heading: 'Mikrofon',
+    device: 'Urządzenie',
+    defaultDevice: 'Domyślny mikrofon',
+    numberedDevice: (index) => `Mikrofon ${index}`,
+    echoCancellation: 'Usuwanie echa',
+    noiseSuppression: 'Redukcja szumów',
+    autoGainControl: 'Automatyczne wzmocnienie',
+    test: 'Testuj mikrofon',
+    stopTest: 'Zatrzymaj test',
+    heard: 'Mikrofon cię słyszy.',
+    speakNow: 'Powiedz coś, aby przetestować...',
+  },
+  analytics: {
+    title: 'Statystyki pytań',
+    close: 'Zamknij',
+    privacy: 'Na tym urządzeniu przechowywane są tylko liczniki: nazwy przedmiotów, kategorie i języki. Żadnych rozmów, zdjęć ani godzin.',
+    since: (date) => `Od ${date}`,
+    sessions: 'Rozmowy',
+    itemsClassified: 'Sklasyfikowane przedmioty',
+    uncertainCount: 'Niepewne odpowiedzi',
+    categories: 'Kategorie',
+    perDay: 'Klasyfikacje dziennie (30 dni)',
+    replyLanguages: 'Język odpowiedzi',
+    uiLanguages: 'Język interfejsu',
+    topItems: 'Najczęściej pytane przedmioty',
+    uncertain: 'Odpowiedzi do sprawdzenia',
+    empty: 'Brak danych.',
+    columns: {
+      item: 'Przedmiot',
+      count: 'Liczba',
+      category: 'Kategoria',
+      lowConfidence: 'Niepewne',
+      lastSeen: 'Ostatnio',
+      date: 'Data',
+      reason: 'Powód',
+      confidence: 'Pewność',
+      language: 'Język',
+    },
+    reasons: {
+      'low-confidence': 'Niska pewność',
+      'asked-for-details': 'Poproszono o szczegóły',
+    },
+    exportItems: 'Pobierz przedmioty (.csv)',
+    exportUncertain: 'Pobierz niepewne odpowiedzi (.csv)',
+    reset: 'Wyczyść statystyki',
+    confirmReset: 'Usunąć wszystkie statystyki na tym urządzeniu?',
+  },
+};
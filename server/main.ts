@@ -0,0 +1,31 @@
+import { RateLimiter } from './rateLimiter';
+import { createGeminiTokenMinter, createStubTokenMinter } from './tokenMinter';
+import { createTokenServer, TOKEN_PATH } from './tokenServer';
+
+// Environment:
+//   GEMINI_API_KEY          Key used to mint tokens (required unless TOKEN_STUB=1)
+//   TOKEN_STUB=1            Hand out fake tokens without calling Google
+//   TOKEN_SERVER_PORT       Port to listen on (default 8787)
+//   TOKEN_RATE_LIMIT        Tokens per client address per minute (default 10)
+//   TOKEN_ALLOWED_ORIGIN    Enable CORS for this origin when the app is hosted elsewhere
+//   TRUST_PROXY=1           Read the client address from X-Forwarded-For
+
+const env = process.env;
+const useStub = env.TOKEN_STUB === '1';
+
+if (!useStub && !env.GEMINI_API_KEY) {
+  console.error('GEMINI_API_KEY is not set. Use TOKEN_STUB=1 to run without Google.');
+  process.exit(1);
+}
+
+const port = Number(env.TOKEN_SERVER_PORT) || 8787;
+const server = createTokenServer({
+  minter: useStub ? createStubTokenMinter() : createGeminiTokenMinter(env.GEMINI_API_KEY as string),
+  rateLimiter: new RateLimiter({ maxRequests: Number(env.TOKEN_RATE_LIMIT) || 10, windowMs: 60_000 }),
+  allowedOrigin: env.TOKEN_ALLOWED_ORIGIN,
+  trustProxy: env.TRUST_PROXY === '1',
+});
+
+server.listen(port, () => {
+  console.log(`Token server listening on http://localhost:${port}${TOKEN_PATH}${useStub ? ' (stub tokens)' : ''}`);
+});
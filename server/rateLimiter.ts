@@ -0,0 +1,47 @@
+export interface RateLimitPolicy {
+  maxRequests: number;
+  windowMs: number;
+}
+
+export const DEFAULT_RATE_LIMIT: RateLimitPolicy = {
+  maxRequests: 10,
+  windowMs: 60_000,
+};
+
+export interface RateLimitResult {
+  allowed: boolean;
+  retryAfterMs: number; // 0 when allowed
+}
+
+/** Sliding-window limiter keyed by client address. */
+export class RateLimiter {
+  private readonly hits = new Map<string, number[]>();
+
+  constructor(private readonly policy: RateLimitPolicy = DEFAULT_RATE_LIMIT) {}
+
+  check(key: string, now: number = Date.now()): RateLimitResult {
+    const windowStart = now - this.policy.windowMs;
+    const recent = (this.hits.get(key) ?? []).filter(time => time > windowStart);
+
+    if (recent.length >= this.policy.maxRequests) {
+      this.hits.set(key, recent);
+      return { allowed: false, retryAfterMs: recent[0] + this.policy.windowMs - now };
+    }
+
+    recent.push(now);
+    this.hits.set(key, recent);
+    return { allowed: true, retryAfterMs: 0 };
+  }
+
+  /** Forgets clients with no requests in the current window so the map does not grow forever. */
+  prune(now: number = Date.now()): void {
+    const windowStart = now - this.policy.windowMs;
+    for (const [key, times] of this.hits) {
+      if (times[times.length - 1] <= windowStart) this.hits.delete(key);
+    }
+  }
+
+  get trackedClientCount(): number {
+    return this.hits.size;
+  }
+}
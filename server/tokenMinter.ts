@@ -0,0 +1,53 @@
+import { GoogleGenAI } from '@google/genai';
+import { LiveTokenRequest, LiveTokenResponse } from '../types';
+import { buildAssistantConfig } from '../utils/liveConfig';
+
+/** Issues one ephemeral Live API token for an already validated request. */
+export type TokenMinter = (request: LiveTokenRequest) => Promise<LiveTokenResponse>;
+
+export interface TokenLifetime {
+  newSessionWindowMs: number; // How long the token can be used to open a session
+  sessionMs: number; // How long a session opened with it may last
+}
+
+export const DEFAULT_TOKEN_LIFETIME: TokenLifetime = {
+  newSessionWindowMs: 60_000,
+  sessionMs: 30 * 60_000,
+};
+
+/** Mints real tokens with the assistant config locked in, so the browser can only add per-connection options. */
+export function createGeminiTokenMinter(apiKey: string, lifetime: TokenLifetime = DEFAULT_TOKEN_LIFETIME): TokenMinter {
+  const ai = new GoogleGenAI({ apiKey, httpOptions: { apiVersion: 'v1alpha' } });
+
+  return async (request) => {
+    const now = Date.now();
+    const newSessionExpireTime = new Date(now + lifetime.newSessionWindowMs).toISOString();
+
+    const token = await ai.authTokens.create({
+      config: {
+        uses: 1,
+        newSessionExpireTime,
+        expireTime: new Date(now + lifetime.sessionMs).toISOString(),
+        liveConnectConstraints: {
+          model: request.model,
+          config: buildAssistantConfig(request, new Date(now)),
+        },
+        // Empty list: lock exactly the fields set in the constraints above
+        lockAdditionalFields: [],
+      },
+    });
+
+    if (!token.name) throw new Error('Token service returned no token');
+    return { token: token.name, model: request.model, expiresAt: newSessionExpireTime };
+  };
+}
+
+/** Hands out fake tokens without calling Google; for local development and tests. */
+export function createStubTokenMinter(): TokenMinter {
+  let issued = 0;
+  return async (request) => ({
+    token: `stub-token-${++issued}`,
+    model: request.model,
+    expiresAt: new Date(Date.now() + DEFAULT_TOKEN_LIFETIME.newSessionWindowMs).toISOString(),
+  });
+}
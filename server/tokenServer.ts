@@ -0,0 +1,121 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import { AppSettings, LiveTokenRequest } from '../types';
+import { modelForMode, parseSettings } from '../utils/settings';
+import { RateLimiter } from './rateLimiter';
+import { TokenMinter } from './tokenMinter';
+
+export const TOKEN_PATH = '/api/live-token';
+
+const MAX_BODY_BYTES = 4 * 1024;
+
+export interface TokenServerOptions {
+  minter: TokenMinter;
+  rateLimiter?: RateLimiter;
+  allowedOrigin?: string; // Adds CORS headers when the app is served from another origin
+  trustProxy?: boolean; // Take the client address from X-Forwarded-For (behind a reverse proxy only)
+}
+
+class HttpError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+function clientAddress(req: IncomingMessage, trustProxy: boolean): string {
+  const forwarded = req.headers['x-forwarded-for'];
+  if (trustProxy && typeof forwarded === 'string') {
+    return forwarded.split(',')[0].trim();
+  }
+  return req.socket.remoteAddress ?? 'unknown';
+}
+
+async function readJson(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new HttpError(413, 'Request body too large');
+    chunks.push(chunk);
+  }
+  if (size === 0) return {};
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch (error) {
+    throw new HttpError(400, 'Body must be JSON');
+  }
+}
+
+// Unknown voices, models or styles fall back to the defaults; the browser never picks anything else
+function toTokenRequest(body: unknown): LiveTokenRequest {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    throw new HttpError(400, 'Body must be a JSON object');
+  }
+  const settings = parseSettings(body as Partial<AppSettings>);
+  const mode = (body as { mode?: unknown }).mode === 'text' ? 'text' : 'voice';
+  return {
+    mode,
+    model: modelForMode(settings.model, mode),
+    voiceName: settings.voiceName,
+    replyLanguage: settings.replyLanguage,
+    speakingStyle: settings.speakingStyle,
+  };
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) {
+  res.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store', ...headers });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * HTTP server that mints ephemeral Live API tokens. The API key, system instruction
+ * and tools stay here; the browser only chooses among the allowed settings.
+ */
+export function createTokenServer(options: TokenServerOptions): Server {
+  const rateLimiter = options.rateLimiter ?? new RateLimiter();
+  const pruneTimer = setInterval(() => rateLimiter.prune(), 60_000);
+  pruneTimer.unref();
+
+  const server = createServer(async (req, res) => {
+    if (options.allowedOrigin) {
+      res.setHeader('Access-Control-Allow-Origin', options.allowedOrigin);
+      res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+      res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+    }
+
+    const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+    try {
+      if (path === '/healthz' && req.method === 'GET') {
+        sendJson(res, 200, { ok: true });
+        return;
+      }
+      if (path !== TOKEN_PATH) throw new HttpError(404, 'Not found');
+      if (req.method === 'OPTIONS') {
+        res.writeHead(204);
+        res.end();
+        return;
+      }
+      if (req.method !== 'POST') throw new HttpError(405, 'Use POST');
+
+      const limit = rateLimiter.check(clientAddress(req, options.trustProxy ?? false));
+      if (!limit.allowed) {
+        sendJson(res, 429, { error: 'Too many requests' }, {
+          'Retry-After': String(Math.ceil(limit.retryAfterMs / 1000)),
+        });
+        return;
+      }
+
+      const request = toTokenRequest(await readJson(req));
+      sendJson(res, 200, await options.minter(request));
+    } catch (error) {
+      if (error instanceof HttpError) {
+        sendJson(res, error.status, { error: error.message });
+        return;
+      }
+      console.error('Token request failed', error);
+      sendJson(res, 502, { error: 'Could not create token' });
+    }
+  });
+
+  server.on('close', () => clearInterval(pruneTimer));
+  return server;
+}
@@ -0,0 +1,31 @@
+import { AnalyticsData } from '../types';
+import { emptyAnalytics, parseAnalytics } from '../utils/analytics';
+import { toIsoDate } from '../utils/holidays';
+
+const STORAGE_KEY = 'litla-sorpa:analytics';
+
+const today = () => toIsoDate(new Date());
+
+export function loadAnalytics(): AnalyticsData {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return emptyAnalytics(today());
+    return parseAnalytics(JSON.parse(raw) as Partial<AnalyticsData>, today());
+  } catch (error) {
+    console.error('Failed to read analytics', error);
+    return emptyAnalytics(today());
+  }
+}
+
+/** Applies one change to the stored counts; `update` gets today's date for day buckets. */
+export function updateAnalytics(update: (data: AnalyticsData, today: string) => AnalyticsData): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(update(loadAnalytics(), today())));
+  } catch (error) {
+    console.error('Failed to save analytics', error);
+  }
+}
+
+export function clearAnalytics(): void {
+  localStorage.removeItem(STORAGE_KEY);
+}
@@ -0,0 +1,134 @@
+import { encodeBase64, INPUT_SAMPLE_RATE } from '../utils/audio';
+
+const PROCESSOR_NAME = 'pcm-capture-processor';
+
+/**
+ * AudioWorklet processor that resamples the device-rate input to the target rate
+ * with linear interpolation, converts it to Int16 PCM and posts fixed-size frames,
+ * already base64-encoded for the Live API, together with their RMS level. Encoding
+ * here keeps that work off the main thread. Kept as a string so it can be loaded
+ * from a Blob URL without a separate bundler entry point.
+ */
+const WORKLET_SOURCE = `
+const encodeBase64 = ${encodeBase64.toString()};
+
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const { targetSampleRate, chunkSize } = options.processorOptions;
+    this.step = sampleRate / targetSampleRate;
+    this.chunkSize = chunkSize;
+    this.chunk = new Int16Array(chunkSize);
+    this.bytes = new Uint8Array(this.chunk.buffer);
+    this.index = 0;
+    this.sumSquares = 0;
+    this.position = 0;
+    this.previous = 0;
+  }
+
+  push(sample) {
+    const clamped = Math.max(-1, Math.min(1, sample));
+    this.chunk[this.index++] = clamped * 32767;
+    this.sumSquares += clamped * clamped;
+
+    if (this.index === this.chunkSize) {
+      const rms = Math.sqrt(this.sumSquares / this.chunkSize);
+      this.port.postMessage({ data: encodeBase64(this.bytes), rms });
+      this.index = 0;
+      this.sumSquares = 0;
+    }
+  }
+
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (!channel || channel.length === 0) return true;
+
+    // position may be in [-1, 0): interpolate from the last sample of the previous block
+    let position = this.position;
+    while (position < channel.length - 1) {
+      const i = Math.floor(position);
+      const fraction = position - i;
+      const a = i < 0 ? this.previous : channel[i];
+      const b = channel[i + 1];
+      this.push(a + (b - a) * fraction);
+      position += this.step;
+    }
+
+    this.position = position - channel.length;
+    this.previous = channel[channel.length - 1];
+    return true;
+  }
+}
+
+registerProcessor('${PROCESSOR_NAME}', PcmCaptureProcessor);
+`;
+
+export interface CaptureChunk {
+  data: string; // Base64 Int16 PCM at the target rate, ready to send
+  rms: number;
+}
+
+export interface AudioCaptureOptions {
+  onChunk: (chunk: CaptureChunk) => void;
+  chunkSize?: number; // Samples per chunk at the target rate
+  targetSampleRate?: number;
+}
+
+/**
+ * Microphone capture running on an AudioWorklet. The input context runs at the
+ * device's native rate; resampling to 16 kHz happens inside the worklet.
+ */
+export class AudioCapture {
+  private constructor(
+    private readonly context: AudioContext,
+    private readonly source: MediaStreamAudioSourceNode,
+    private readonly node: AudioWorkletNode,
+    readonly analyser: AnalyserNode, // Taps the raw microphone signal for level and spectrum display
+  ) {}
+
+  static async start(stream: MediaStream, options: AudioCaptureOptions): Promise<AudioCapture> {
+    const { onChunk, chunkSize = 4096, targetSampleRate = INPUT_SAMPLE_RATE } = options;
+
+    const context = new (window.AudioContext || (window as any).webkitAudioContext)();
+    const moduleUrl = URL.createObjectURL(new Blob([WORKLET_SOURCE], { type: 'application/javascript' }));
+    try {
+      await context.audioWorklet.addModule(moduleUrl);
+    } catch (error) {
+      context.close();
+      throw error;
+    } finally {
+      URL.revokeObjectURL(moduleUrl);
+    }
+
+    const source = context.createMediaStreamSource(stream);
+    const node = new AudioWorkletNode(context, PROCESSOR_NAME, {
+      numberOfInputs: 1,
+      numberOfOutputs: 1,
+      channelCount: 1,
+      channelCountMode: 'explicit',
+      processorOptions: { targetSampleRate, chunkSize },
+    });
+
+    node.port.onmessage = (event: MessageEvent<CaptureChunk>) => onChunk(event.data);
+
+    // The node writes silence; connecting it to the destination keeps it pulled in every browser
+    const analyser = context.createAnalyser();
+    analyser.fftSize = 1024;
+
+    source.connect(node);
+    source.connect(analyser);
+    node.connect(context.destination);
+    if (context.state === 'suspended') {
+      await context.resume();
+    }
+
+    return new AudioCapture(context, source, node, analyser);
+  }
+
+  stop(): void {
+    this.node.port.onmessage = null;
+    this.source.disconnect();
+    this.node.disconnect();
+    this.context.close();
+  }
+}
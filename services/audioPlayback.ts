@@ -0,0 +1,159 @@
+import { decode, pcmToAudioBuffer } from '../utils/audio';
+
+export const OUTPUT_SAMPLE_RATE = 24000;
+
+export type PlaybackState = 'idle' | 'buffering' | 'playing';
+
+// What the Live session controller needs from audio output, so tests can swap in a fake
+export interface AudioOutput {
+  /** Queues one base64 PCM chunk and returns its duration in seconds. */
+  enqueue(base64Pcm: string, sampleRate?: number): number;
+  /** The model finished its turn; play whatever is still held back. */
+  endOfTurn(): void;
+  /** Drops everything queued or playing, e.g. when the user talks over the model. */
+  interrupt(): void;
+  close(): void;
+}
+
+export interface AudioPlaybackOptions {
+  jitterBufferMs?: number; // Audio collected before a turn (or after an underrun) starts playing
+  fftSize?: number;
+}
+
+export const DEFAULT_PLAYBACK_OPTIONS: Required<AudioPlaybackOptions> = {
+  jitterBufferMs: 120,
+  fftSize: 1024,
+};
+
+// Small head start so the first chunk is not scheduled in the past by the time it reaches the audio thread
+const SCHEDULE_LEAD_SECONDS = 0.02;
+
+/**
+ * Plays the model's PCM chunks gaplessly on an AudioContext. The start of each turn
+ * is held back briefly so network jitter does not cause stutter, every chunk after
+ * that is scheduled exactly where the previous one ends, and an AnalyserNode on the
+ * output gives the real level of the model's voice.
+ */
+export class AudioPlayback implements AudioOutput {
+  private nextStartTime = 0;
+  private readonly sources = new Set<AudioBufferSourceNode>();
+  private pending: AudioBuffer[] = [];
+  private pendingDuration = 0;
+  private jitterTimer: ReturnType<typeof setTimeout> | null = null;
+  private currentState: PlaybackState = 'idle';
+  private readonly listeners = new Set<(state: PlaybackState) => void>();
+  private readonly options: Required<AudioPlaybackOptions>;
+  private closed = false;
+  readonly analyser: AnalyserNode;
+
+  constructor(
+    private readonly ctx: AudioContext,
+    destination: AudioNode,
+    options: AudioPlaybackOptions = {},
+  ) {
+    this.options = { ...DEFAULT_PLAYBACK_OPTIONS, ...options };
+    this.analyser = ctx.createAnalyser();
+    this.analyser.fftSize = this.options.fftSize;
+    this.analyser.connect(destination);
+  }
+
+  get state(): PlaybackState {
+    return this.currentState;
+  }
+
+  /** Calls `listener` on every state change until the returned function is called. */
+  subscribe(listener: (state: PlaybackState) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  enqueue(base64Pcm: string, sampleRate = OUTPUT_SAMPLE_RATE): number {
+    if (this.closed) return 0;
+    const buffer = pcmToAudioBuffer(decode(base64Pcm), this.ctx, sampleRate, 1);
+
+    // Still ahead of the playhead: append directly so there is no gap
+    if (this.sources.size > 0 && this.nextStartTime > this.ctx.currentTime) {
+      this.schedule(buffer);
+      return buffer.duration;
+    }
+
+    this.pending.push(buffer);
+    this.pendingDuration += buffer.duration;
+
+    if (this.pendingDuration * 1000 >= this.options.jitterBufferMs) {
+      this.startPending();
+    } else if (!this.jitterTimer) {
+      // A short reply may never fill the buffer, so do not wait for it forever
+      this.setState('buffering');
+      this.jitterTimer = setTimeout(() => this.startPending(), this.options.jitterBufferMs);
+    }
+    return buffer.duration;
+  }
+
+  endOfTurn(): void {
+    if (this.pending.length > 0) this.startPending();
+  }
+
+  interrupt(): void {
+    this.clearJitterTimer();
+    this.pending = [];
+    this.pendingDuration = 0;
+
+    const sources = [...this.sources];
+    this.sources.clear();
+    sources.forEach(source => {
+      try { source.stop(); } catch (e) { /* ignore */ }
+    });
+
+    this.nextStartTime = this.ctx.currentTime;
+    this.setState('idle');
+  }
+
+  close(): void {
+    this.interrupt();
+    this.closed = true;
+    this.listeners.clear();
+    this.analyser.disconnect();
+  }
+
+  private startPending() {
+    this.clearJitterTimer();
+    const pending = this.pending;
+    this.pending = [];
+    this.pendingDuration = 0;
+    if (pending.length === 0) return;
+
+    this.nextStartTime = Math.max(this.nextStartTime, this.ctx.currentTime + SCHEDULE_LEAD_SECONDS);
+    pending.forEach(buffer => this.schedule(buffer));
+  }
+
+  private schedule(buffer: AudioBuffer) {
+    const source = this.ctx.createBufferSource();
+    source.buffer = buffer;
+    source.connect(this.analyser);
+    source.addEventListener('ended', () => {
+      if (!this.sources.delete(source)) return;
+      if (this.sources.size === 0 && this.pending.length === 0) {
+        this.setState('idle');
+      }
+    });
+
+    source.start(this.nextStartTime);
+    this.nextStartTime += buffer.duration;
+    this.sources.add(source);
+    this.setState('playing');
+  }
+
+  private setState(state: PlaybackState) {
+    if (state === this.currentState) return;
+    this.currentState = state;
+    this.listeners.forEach(listener => listener(state));
+  }
+
+  private clearJitterTimer() {
+    if (this.jitterTimer) {
+      clearTimeout(this.jitterTimer);
+      this.jitterTimer = null;
+    }
+  }
+}
@@ -0,0 +1,90 @@
+import { Blob } from '@google/genai';
+
+export interface CameraStreamOptions {
+  onFrame: (frame: Blob) => void;
+  frameRate?: number; // Frames sent per second
+  maxEdge?: number; // Longest side of the sent frame in pixels
+  quality?: number; // JPEG quality 0-1
+}
+
+/**
+ * Rear-camera preview that samples frames at a fixed rate, downsizes them and
+ * hands them over as base64 JPEG ready for `sendRealtimeInput({ video })`.
+ */
+export class CameraStream {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private readonly canvas = document.createElement('canvas');
+
+  private constructor(
+    private readonly stream: MediaStream,
+    private readonly video: HTMLVideoElement,
+    private readonly options: CameraStreamOptions,
+  ) {}
+
+  static async start(video: HTMLVideoElement, options: CameraStreamOptions): Promise<CameraStream> {
+    const stream = await navigator.mediaDevices.getUserMedia({
+      video: { facingMode: { ideal: 'environment' }, width: { ideal: 1280 }, height: { ideal: 720 } },
+      audio: false,
+    });
+
+    video.srcObject = stream;
+    video.muted = true;
+    video.playsInline = true;
+    try {
+      await video.play();
+    } catch (error) {
+      stream.getTracks().forEach(track => track.stop());
+      throw error;
+    }
+
+    const camera = new CameraStream(stream, video, options);
+    camera.startSampling();
+    return camera;
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.stream.getTracks().forEach(track => track.stop());
+    this.video.pause();
+    this.video.srcObject = null;
+  }
+
+  /** Full-resolution still of the current frame, e.g. for reading a barcode. */
+  grabFrame(): Promise<globalThis.Blob | null> {
+    const { videoWidth, videoHeight } = this.video;
+    if (!videoWidth || !videoHeight) return Promise.resolve(null);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = videoWidth;
+    canvas.height = videoHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return Promise.resolve(null);
+    ctx.drawImage(this.video, 0, 0);
+    return new Promise(resolve => canvas.toBlob(resolve, 'image/jpeg', 0.92));
+  }
+
+  private startSampling() {
+    const frameRate = this.options.frameRate ?? 1;
+    this.timer = setInterval(() => this.captureFrame(), 1000 / frameRate);
+  }
+
+  private captureFrame() {
+    const { videoWidth, videoHeight } = this.video;
+    if (!videoWidth || !videoHeight) return;
+
+    const maxEdge = this.options.maxEdge ?? 768;
+    const scale = Math.min(1, maxEdge / Math.max(videoWidth, videoHeight));
+    this.canvas.width = Math.round(videoWidth * scale);
+    this.canvas.height = Math.round(videoHeight * scale);
+
+    const ctx = this.canvas.getContext('2d');
+    if (!ctx) return;
+    ctx.drawImage(this.video, 0, 0, this.canvas.width, this.canvas.height);
+
+    const dataUrl = this.canvas.toDataURL('image/jpeg', this.options.quality ?? 0.7);
+    this.options.onFrame({ mimeType: 'image/jpeg', data: dataUrl.split(',')[1] });
+  }
+}
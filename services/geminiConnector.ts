@@ -0,0 +1,32 @@
+import { GoogleGenAI } from '@google/genai';
+import { AppSettings, ConversationMode, LiveTokenRequest } from '../types';
+import { buildConnectionConfig } from '../utils/liveConfig';
+import { SessionConnector } from './liveSession';
+import { fetchLiveToken } from './liveToken';
+
+/**
+ * Connects to the real Gemini Live API. Every connection, reconnects included, starts
+ * by fetching a fresh ephemeral token from our token server, so the API key never
+ * reaches the browser. Voice, instruction and tools are locked into the token.
+ */
+export function createGeminiConnector(tokenUrl: string, settings: AppSettings, mode: ConversationMode): SessionConnector {
+  const request: LiveTokenRequest = {
+    mode,
+    model: settings.model,
+    voiceName: settings.voiceName,
+    replyLanguage: settings.replyLanguage,
+    speakingStyle: settings.speakingStyle,
+  };
+
+  return async (callbacks, resumptionHandle) => {
+    const { token, model } = await fetchLiveToken(tokenUrl, request);
+    // Ephemeral tokens are only accepted on the v1alpha endpoint
+    const ai = new GoogleGenAI({ apiKey: token, httpOptions: { apiVersion: 'v1alpha' } });
+
+    return ai.live.connect({
+      model,
+      config: buildConnectionConfig(resumptionHandle),
+      callbacks,
+    });
+  };
+}
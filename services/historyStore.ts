@@ -0,0 +1,20 @@
+import { ConversationRecord } from '../types';
+import { withStore } from './database';
+
+export async function saveConversation(record: ConversationRecord): Promise<void> {
+  await withStore('conversations', 'readwrite', store => store.put(record));
+}
+
+/** All stored conversations, newest first. */
+export async function listConversations(): Promise<ConversationRecord[]> {
+  const records = await withStore<ConversationRecord[]>('conversations', 'readonly', store => store.getAll());
+  return records.sort((a, b) => b.startedAt - a.startedAt);
+}
+
+export async function getConversation(id: string): Promise<ConversationRecord | undefined> {
+  return withStore<ConversationRecord | undefined>('conversations', 'readonly', store => store.get(id));
+}
+
+export async function deleteConversation(id: string): Promise<void> {
+  await withStore('conversations', 'readwrite', store => store.delete(id));
+}
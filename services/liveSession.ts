@@ -0,0 +1,273 @@
+import {
+  Blob,
+  LiveCallbacks,
+  LiveSendClientContentParameters,
+  LiveSendRealtimeInputParameters,
+  LiveSendToolResponseParameters,
+  LiveServerMessage,
+} from '@google/genai';
+import { ConnectionState } from '../types';
+
+// The subset of the SDK `Session` we rely on, so tests can pass in a fake
+export interface LiveSessionLike {
+  sendRealtimeInput(params: LiveSendRealtimeInputParameters): void;
+  sendClientContent(params: LiveSendClientContentParameters): void;
+  sendToolResponse(params: LiveSendToolResponseParameters): void;
+  close(): void;
+}
+
+/**
+ * Opens one Live API connection. `resumptionHandle` is the last handle the server
+ * gave us, or undefined for a fresh session.
+ */
+export type SessionConnector = (
+  callbacks: LiveCallbacks,
+  resumptionHandle: string | undefined,
+) => Promise<LiveSessionLike>;
+
+export interface ReconnectPolicy {
+  initialDelayMs: number;
+  maxDelayMs: number;
+  multiplier: number;
+  maxAttempts: number;
+}
+
+export const DEFAULT_RECONNECT_POLICY: ReconnectPolicy = {
+  initialDelayMs: 500,
+  maxDelayMs: 10000,
+  multiplier: 2,
+  maxAttempts: 6,
+};
+
+export function getReconnectDelay(policy: ReconnectPolicy, attempt: number): number {
+  return Math.min(policy.maxDelayMs, policy.initialDelayMs * Math.pow(policy.multiplier, attempt));
+}
+
+export interface ResilientSessionEvents {
+  onStateChange: (state: ConnectionState) => void;
+  onMessage: (message: LiveServerMessage) => void;
+  // `reconnected` is false for the first connection of the conversation
+  onOpen?: (info: { reconnected: boolean }) => void;
+  onReconnectScheduled?: (info: { attempt: number; delayMs: number }) => void;
+  onGiveUp?: () => void;
+}
+
+export interface ResilientSessionOptions {
+  policy?: ReconnectPolicy;
+  maxBufferedChunks?: number; // Realtime inputs kept while the socket is down
+}
+
+/**
+ * Wraps a Live API session and transparently reconnects it with exponential backoff,
+ * resuming the conversation with the latest session resumption handle. Microphone
+ * audio and activity signals sent while the socket is down are buffered and flushed
+ * on reconnect.
+ */
+export class ResilientLiveSession {
+  private session: LiveSessionLike | null = null;
+  private generation = 0;
+  private attempt = 0;
+  private resumptionHandle: string | undefined;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private pending: LiveSendRealtimeInputParameters[] = [];
+  private activityOpen = false;
+  private activityOpenAtDrop = false;
+  private closed = false;
+  private hasConnected = false;
+  private readonly policy: ReconnectPolicy;
+  private readonly maxBufferedChunks: number;
+
+  constructor(
+    private readonly connector: SessionConnector,
+    private readonly events: ResilientSessionEvents,
+    options: ResilientSessionOptions = {},
+  ) {
+    this.policy = options.policy ?? DEFAULT_RECONNECT_POLICY;
+    this.maxBufferedChunks = options.maxBufferedChunks ?? 40;
+  }
+
+  get isOpen(): boolean {
+    return this.session !== null;
+  }
+
+  get bufferedChunkCount(): number {
+    return this.pending.length;
+  }
+
+  /** Opens the first connection. Rejects if it cannot be established. */
+  async start(): Promise<void> {
+    this.events.onStateChange(ConnectionState.CONNECTING);
+    await this.open();
+  }
+
+  sendAudio(blob: Blob): void {
+    this.sendOrBuffer({ media: blob });
+  }
+
+  /** Marks the start of user speech when automatic activity detection is disabled. */
+  sendActivityStart(): void {
+    this.activityOpen = true;
+    this.sendOrBuffer({ activityStart: {} });
+  }
+
+  sendActivityEnd(): void {
+    this.activityOpen = false;
+    this.sendOrBuffer({ activityEnd: {} });
+  }
+
+  /** Sends non-audio realtime input. Returns false if the socket is currently down. */
+  sendRealtimeInput(params: LiveSendRealtimeInputParameters): boolean {
+    if (!this.session) return false;
+    this.session.sendRealtimeInput(params);
+    return true;
+  }
+
+  /** Sends a complete conversation turn, e.g. typed text. Returns false if the socket is down. */
+  sendClientContent(params: LiveSendClientContentParameters): boolean {
+    if (!this.session) return false;
+    this.session.sendClientContent(params);
+    return true;
+  }
+
+  sendToolResponse(params: LiveSendToolResponseParameters): boolean {
+    if (!this.session) return false;
+    this.session.sendToolResponse(params);
+    return true;
+  }
+
+  /** Ends the conversation for good; no reconnect is attempted afterwards. */
+  close(): void {
+    this.closed = true;
+    this.generation++;
+    this.clearReconnectTimer();
+    this.pending = [];
+    this.closeCurrentSession();
+  }
+
+  private sendOrBuffer(params: LiveSendRealtimeInputParameters) {
+    if (this.session) {
+      this.session.sendRealtimeInput(params);
+      return;
+    }
+    if (this.closed) return;
+
+    this.pending.push(params);
+    if (this.pending.length > this.maxBufferedChunks) {
+      // Drop the oldest audio; activity markers are kept so speech stays bracketed
+      const oldestAudio = this.pending.findIndex(entry => entry.media);
+      this.pending.splice(oldestAudio === -1 ? 0 : oldestAudio, 1);
+    }
+  }
+
+  private async open(): Promise<void> {
+    const generation = ++this.generation;
+    const isCurrent = () => generation === this.generation && !this.closed;
+
+    const session = await this.connector({
+      onopen: () => { /* Session is usable once connector resolves */ },
+      onmessage: (message) => {
+        if (!isCurrent()) return;
+        this.handleMessage(message);
+      },
+      onerror: (event) => {
+        if (!isCurrent()) return;
+        console.error('Live session error', event);
+        this.handleDrop();
+      },
+      onclose: () => {
+        if (!isCurrent()) return;
+        this.handleDrop();
+      },
+    }, this.resumptionHandle);
+
+    // Closed or superseded while the socket was opening
+    if (!isCurrent()) {
+      session.close();
+      return;
+    }
+
+    this.session = session;
+    this.attempt = 0;
+    const reconnected = this.hasConnected;
+    this.hasConnected = true;
+    this.flushPending();
+    this.events.onStateChange(ConnectionState.CONNECTED);
+    this.events.onOpen?.({ reconnected });
+  }
+
+  private handleMessage(message: LiveServerMessage) {
+    const update = message.sessionResumptionUpdate;
+    if (update?.resumable && update.newHandle) {
+      this.resumptionHandle = update.newHandle;
+    }
+
+    this.events.onMessage(message);
+
+    // Server is about to drop us; move to a new connection before it does
+    if (message.goAway) {
+      this.generation++;
+      this.activityOpenAtDrop = this.activityOpen;
+      this.closeCurrentSession();
+      this.scheduleReconnect(0);
+    }
+  }
+
+  private handleDrop() {
+    this.generation++;
+    this.session = null;
+    this.activityOpenAtDrop = this.activityOpen;
+    this.scheduleReconnect();
+  }
+
+  private scheduleReconnect(delayOverride?: number) {
+    if (this.closed) return;
+    this.clearReconnectTimer();
+
+    if (this.attempt >= this.policy.maxAttempts) {
+      this.events.onStateChange(ConnectionState.ERROR);
+      this.events.onGiveUp?.();
+      return;
+    }
+
+    const delayMs = delayOverride ?? getReconnectDelay(this.policy, this.attempt);
+    this.attempt++;
+    this.events.onStateChange(ConnectionState.RECONNECTING);
+    this.events.onReconnectScheduled?.({ attempt: this.attempt, delayMs });
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.open().catch(error => {
+        console.error('Reconnect failed', error);
+        this.scheduleReconnect();
+      });
+    }, delayMs);
+  }
+
+  private flushPending() {
+    const pending = this.pending;
+    this.pending = [];
+
+    // The new connection never saw the activityStart of speech that was in progress
+    if (this.activityOpenAtDrop && !pending[0]?.activityStart) {
+      this.session?.sendRealtimeInput({ activityStart: {} });
+    }
+    this.activityOpenAtDrop = false;
+
+    pending.forEach(params => this.session?.sendRealtimeInput(params));
+  }
+
+  private closeCurrentSession() {
+    const session = this.session;
+    this.session = null;
+    try {
+      session?.close();
+    } catch (e) { /* ignore */ }
+  }
+
+  private clearReconnectTimer() {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  }
+}
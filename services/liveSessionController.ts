@@ -0,0 +1,133 @@
+import { LiveServerMessage, UsageMetadata } from '@google/genai';
+import { ConnectionState, DetectedItem, PackagingVerdict, SortingVerdict, StationMatch } from '../types';
+import { handleToolCall, ToolContext } from '../tools';
+import { parsePcmSampleRate } from '../utils/audio';
+import { AudioOutput, OUTPUT_SAMPLE_RATE } from './audioPlayback';
+import { ResilientLiveSession, ResilientSessionOptions, SessionConnector } from './liveSession';
+
+export interface LiveSessionControllerEvents {
+  onStateChange: (state: ConnectionState) => void;
+  onOpen?: (info: { reconnected: boolean }) => void;
+  onReconnectScheduled?: (info: { attempt: number; delayMs: number }) => void;
+  onGiveUp?: () => void;
+  // Partial transcription, or streamed answer text in text mode; several calls make up one utterance
+  onTranscript?: (speaker: 'user' | 'model', text: string) => void;
+  onModelAudio?: (durationSeconds: number) => void;
+  onTurnComplete?: () => void;
+  onInterrupted?: () => void;
+  onVerdict?: (verdict: SortingVerdict) => void;
+  onStations?: (matches: StationMatch[]) => void;
+  onPhotoItems?: (items: DetectedItem[]) => void;
+  onPackaging?: (verdict: PackagingVerdict) => void;
+  onUncertain?: (itemName: string) => void;
+  onUsageMetadata?: (usage: UsageMetadata) => void;
+}
+
+export interface LiveSessionControllerOptions {
+  connector: SessionConnector;
+  audioOutput?: AudioOutput; // Left out in text mode
+  getLocation?: ToolContext['getLocation'];
+  now?: ToolContext['now'];
+  session?: ResilientSessionOptions;
+}
+
+/**
+ * Everything that happens between the Live API socket and the UI: runs tool calls,
+ * plays model audio (in voice mode) and reports transcripts, text and turn boundaries. Knows nothing about
+ * `GoogleGenAI`; the connector decides where messages come from.
+ */
+export class LiveSessionController {
+  readonly session: ResilientLiveSession;
+  private readonly audioOutput?: AudioOutput;
+  private closed = false;
+  // Messages are handled one at a time so an `interrupted` cannot overtake audio still being decoded
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(private readonly options: LiveSessionControllerOptions, private readonly events: LiveSessionControllerEvents) {
+    this.audioOutput = options.audioOutput;
+    this.session = new ResilientLiveSession(options.connector, {
+      onStateChange: events.onStateChange,
+      onOpen: events.onOpen,
+      onReconnectScheduled: events.onReconnectScheduled,
+      onGiveUp: events.onGiveUp,
+      onMessage: (message) => {
+        this.queue = this.queue
+          .then(() => this.handleMessage(message))
+          .catch(error => console.error('Failed to handle Live message', error));
+      },
+    }, options.session);
+  }
+
+  /** Resolves once every message received so far has been handled. */
+  idle(): Promise<void> {
+    return this.queue;
+  }
+
+  start(): Promise<void> {
+    return this.session.start();
+  }
+
+  /** Closes the socket and silences playback. Messages still in flight are dropped. */
+  close(): void {
+    this.closed = true;
+    this.session.close();
+    this.audioOutput?.close();
+  }
+
+  private async handleMessage(message: LiveServerMessage): Promise<void> {
+    if (this.closed) return;
+
+    // Handle Function Calls
+    if (message.toolCall) {
+      const functionResponses = await handleToolCall(message.toolCall, {
+        onVerdict: verdict => this.events.onVerdict?.(verdict),
+        onStations: matches => this.events.onStations?.(matches),
+        onPhotoItems: items => this.events.onPhotoItems?.(items),
+        onPackaging: verdict => this.events.onPackaging?.(verdict),
+        onUncertain: itemName => this.events.onUncertain?.(itemName),
+        getLocation: this.options.getLocation,
+        now: this.options.now,
+      });
+      if (this.closed) return;
+      if (functionResponses.length > 0) {
+        this.session.sendToolResponse({ functionResponses });
+      }
+    }
+
+    // Handle Audio and Text Output; a turn may carry several parts
+    for (const part of message.serverContent?.modelTurn?.parts ?? []) {
+      if (part.text && !part.thought) {
+        this.events.onTranscript?.('model', part.text);
+        continue;
+      }
+      const audio = part.inlineData;
+      if (!this.audioOutput || !audio?.data || (audio.mimeType && !audio.mimeType.startsWith('audio/'))) continue;
+      const seconds = this.audioOutput.enqueue(audio.data, parsePcmSampleRate(audio.mimeType, OUTPUT_SAMPLE_RATE));
+      this.events.onModelAudio?.(seconds);
+    }
+
+    // Handle Transcripts
+    const inputText = message.serverContent?.inputTranscription?.text;
+    if (inputText) {
+      this.events.onTranscript?.('user', inputText);
+    }
+    const outputText = message.serverContent?.outputTranscription?.text;
+    if (outputText) {
+      this.events.onTranscript?.('model', outputText);
+    }
+
+    if (message.usageMetadata) {
+      this.events.onUsageMetadata?.(message.usageMetadata);
+    }
+
+    if (message.serverContent?.turnComplete) {
+      this.audioOutput?.endOfTurn();
+      this.events.onTurnComplete?.();
+    }
+
+    if (message.serverContent?.interrupted) {
+      this.audioOutput?.interrupt();
+      this.events.onInterrupted?.();
+    }
+  }
+}
@@ -0,0 +1,40 @@
+import { LiveTokenRequest, LiveTokenResponse } from '../types';
+
+export type LiveTokenErrorCode = 'unreachable' | 'rate-limited' | 'server-error' | 'invalid-response';
+
+export class LiveTokenError extends Error {
+  constructor(readonly code: LiveTokenErrorCode, readonly status: number) {
+    super(`Live token request failed: ${code} (${status})`);
+  }
+}
+
+/** Asks the token server for a single-use ephemeral Live API token. */
+export async function fetchLiveToken(
+  url: string,
+  request: LiveTokenRequest,
+  fetchImpl: typeof fetch = fetch,
+): Promise<LiveTokenResponse> {
+  let response: Response;
+  try {
+    response = await fetchImpl(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(request),
+    });
+  } catch (error) {
+    throw new LiveTokenError('unreachable', 0);
+  }
+
+  if (response.status === 429) {
+    throw new LiveTokenError('rate-limited', 429);
+  }
+  if (!response.ok) {
+    throw new LiveTokenError('server-error', response.status);
+  }
+
+  const body = await response.json() as Partial<LiveTokenResponse>;
+  if (typeof body.token !== 'string' || typeof body.model !== 'string') {
+    throw new LiveTokenError('invalid-response', response.status);
+  }
+  return body as LiveTokenResponse;
+}
@@ -0,0 +1,18 @@
+import { QueuedPhoto } from '../types';
+import { withStore } from './database';
+
+// Photos taken offline survive a reload or the app being closed until they are sent
+
+export async function enqueuePhoto(photo: QueuedPhoto): Promise<void> {
+  await withStore('photoQueue', 'readwrite', store => store.put(photo));
+}
+
+/** Queued photos, oldest first. */
+export async function listQueuedPhotos(): Promise<QueuedPhoto[]> {
+  const photos = await withStore<QueuedPhoto[]>('photoQueue', 'readonly', store => store.getAll());
+  return photos.sort((a, b) => a.createdAt - b.createdAt);
+}
+
+export async function removeQueuedPhoto(id: string): Promise<void> {
+  await withStore('photoQueue', 'readwrite', store => store.delete(id));
+}
@@ -0,0 +1,74 @@
+import { SessionLimitReason } from '../types';
+
+export interface SessionLimits {
+  idleTimeoutMs: number | null; // null = no idle timeout
+  maxSessionMs: number | null;
+  warningMs: number; // How long before a limit the warning fires
+}
+
+export interface SessionWatchdogEvents {
+  onWarning: (reason: SessionLimitReason, remainingMs: number) => void;
+  // The user became active again after an idle warning
+  onWarningCleared?: () => void;
+  onLimit: (reason: SessionLimitReason) => void;
+}
+
+/**
+ * Ends sessions that are left open: one timer for the maximum session length and
+ * one for idleness that restarts whenever the user does something. Each fires a
+ * warning `warningMs` before the limit.
+ */
+export class SessionWatchdog {
+  private timers: ReturnType<typeof setTimeout>[] = [];
+  private idleTimers: ReturnType<typeof setTimeout>[] = [];
+  private idleWarningShown = false;
+  private running = false;
+
+  constructor(private readonly limits: SessionLimits, private readonly events: SessionWatchdogEvents) {}
+
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+
+    if (this.limits.maxSessionMs !== null) {
+      this.timers = this.schedule('max-length', this.limits.maxSessionMs);
+    }
+    this.restartIdleTimer();
+  }
+
+  /** Call on anything the user does: speaking, typing, sending a photo. */
+  noteActivity(): void {
+    if (!this.running) return;
+    if (this.idleWarningShown) {
+      this.idleWarningShown = false;
+      this.events.onWarningCleared?.();
+    }
+    this.restartIdleTimer();
+  }
+
+  stop(): void {
+    this.running = false;
+    [...this.timers, ...this.idleTimers].forEach(clearTimeout);
+    this.timers = [];
+    this.idleTimers = [];
+  }
+
+  private restartIdleTimer() {
+    this.idleTimers.forEach(clearTimeout);
+    this.idleTimers = this.limits.idleTimeoutMs === null ? [] : this.schedule('idle', this.limits.idleTimeoutMs);
+  }
+
+  private schedule(reason: SessionLimitReason, limitMs: number): ReturnType<typeof setTimeout>[] {
+    const warningDelay = Math.max(0, limitMs - this.limits.warningMs);
+    return [
+      setTimeout(() => {
+        if (reason === 'idle') this.idleWarningShown = true;
+        this.events.onWarning(reason, limitMs - warningDelay);
+      }, warningDelay),
+      setTimeout(() => {
+        this.stop();
+        this.events.onLimit(reason);
+      }, limitMs),
+    ];
+  }
+}
@@ -0,0 +1,81 @@
+import { InputMode } from '../types';
+import { VadOptions, VoiceActivityDetector } from '../utils/vad';
+
+export interface SpeechSink {
+  sendAudio: (data: string) => void; // Base64 PCM chunk as produced by AudioCapture
+  sendActivityStart: () => void;
+  sendActivityEnd: () => void;
+}
+
+export interface SpeechGateOptions {
+  mode: InputMode;
+  vad?: Partial<VadOptions>;
+  preRollMs?: number; // Audio kept from just before VAD triggers so first syllables are not cut
+}
+
+/**
+ * Decides which microphone chunks reach the Live API and brackets them with
+ * explicit activityStart/activityEnd signals, either from the client-side VAD
+ * or from the push-to-talk button.
+ */
+export class SpeechGate {
+  private readonly detector: VoiceActivityDetector;
+  private readonly preRollMs: number;
+  private preRoll: { data: string; durationMs: number }[] = [];
+  private talkPressed = false;
+  private active = false;
+
+  constructor(private readonly sink: SpeechSink, private readonly options: SpeechGateOptions) {
+    this.detector = new VoiceActivityDetector(options.vad);
+    this.preRollMs = options.preRollMs ?? 300;
+  }
+
+  processChunk(data: string, rms: number, durationMs: number): void {
+    if (this.options.mode === 'push-to-talk') {
+      if (this.talkPressed) this.sink.sendAudio(data);
+      return;
+    }
+
+    const event = this.detector.process(rms, durationMs);
+
+    if (event === 'start') {
+      this.active = true;
+      this.sink.sendActivityStart();
+      this.preRoll.forEach(chunk => this.sink.sendAudio(chunk.data));
+      this.preRoll = [];
+    }
+
+    if (this.active) {
+      this.sink.sendAudio(data);
+    } else {
+      this.rememberPreRoll(data, durationMs);
+    }
+
+    if (event === 'end') {
+      this.active = false;
+      this.sink.sendActivityEnd();
+    }
+  }
+
+  pressTalk(): void {
+    if (this.options.mode !== 'push-to-talk' || this.talkPressed) return;
+    this.talkPressed = true;
+    this.active = true;
+    this.sink.sendActivityStart();
+  }
+
+  releaseTalk(): void {
+    if (this.options.mode !== 'push-to-talk' || !this.talkPressed) return;
+    this.talkPressed = false;
+    this.active = false;
+    this.sink.sendActivityEnd();
+  }
+
+  private rememberPreRoll(data: string, durationMs: number) {
+    this.preRoll.push({ data, durationMs });
+    let total = this.preRoll.reduce((sum, chunk) => sum + chunk.durationMs, 0);
+    while (this.preRoll.length > 0 && total > this.preRollMs) {
+      total -= this.preRoll.shift()!.durationMs;
+    }
+  }
+}
@@ -0,0 +1,59 @@
+import { UsageMetadata } from '@google/genai';
+import { SessionUsage } from '../types';
+
+export const EMPTY_USAGE: SessionUsage = {
+  connectedMs: 0,
+  audioSentSeconds: 0,
+  audioReceivedSeconds: 0,
+  imagesSent: 0,
+  cameraFrames: 0,
+  promptTokens: 0,
+  responseTokens: 0,
+  totalTokens: 0,
+};
+
+/** Adds up what one session streams and what the model reports it used. */
+export class UsageMeter {
+  private usage: SessionUsage = { ...EMPTY_USAGE };
+  private connectedSince: number | null = null;
+
+  constructor(private readonly now: () => number = Date.now) {}
+
+  /** Connected time only counts while the socket is actually up, not while reconnecting. */
+  setConnected(connected: boolean): void {
+    if (connected && this.connectedSince === null) {
+      this.connectedSince = this.now();
+    } else if (!connected && this.connectedSince !== null) {
+      this.usage.connectedMs += this.now() - this.connectedSince;
+      this.connectedSince = null;
+    }
+  }
+
+  addAudioSent(seconds: number): void {
+    this.usage.audioSentSeconds += seconds;
+  }
+
+  addAudioReceived(seconds: number): void {
+    this.usage.audioReceivedSeconds += seconds;
+  }
+
+  addImage(): void {
+    this.usage.imagesSent++;
+  }
+
+  addCameraFrame(): void {
+    this.usage.cameraFrames++;
+  }
+
+  // The Live API reports usage per model turn, so the counts are summed
+  addUsageMetadata(metadata: UsageMetadata): void {
+    this.usage.promptTokens += metadata.promptTokenCount ?? 0;
+    this.usage.responseTokens += metadata.responseTokenCount ?? 0;
+    this.usage.totalTokens += metadata.totalTokenCount ?? 0;
+  }
+
+  snapshot(): SessionUsage {
+    const running = this.connectedSince === null ? 0 : this.now() - this.connectedSince;
+    return { ...this.usage, connectedMs: this.usage.connectedMs + running };
+  }
+}
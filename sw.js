@@ -0,0 +1,80 @@
+// Service worker for the installable app. `vite build` fills in the placeholders below and
+// writes the result to dist/sw.js (see `precacheServiceWorker` in vite.config.ts).
+
+// Every file of the build, so the app and the sorting catalogue bundled into it work
+// offline right after the first visit
+const PRECACHE_FILES = self.__PRECACHE_FILES__;
+// Changes with each build, so an update drops the previous build's files
+const CACHE_NAME = `litla-sorpa-${self.__BUILD_ID__}`;
+
+// Scripts and styles loaded from CDNs by index.html
+const CDN_HOSTS = ['cdn.tailwindcss.com', 'esm.sh'];
+const CDN_PRECACHE = ['https://cdn.tailwindcss.com/'];
+
+// CDN responses are opaque, which `addAll` rejects; a CDN that cannot be reached is not fatal
+async function precacheCdn(cache) {
+  await Promise.all(CDN_PRECACHE.map(url =>
+    fetch(url, { mode: 'no-cors' })
+      .then(response => cache.put(url, response))
+      .catch(() => undefined)));
+}
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(CACHE_NAME)
+      .then(cache => Promise.all([cache.addAll(PRECACHE_FILES), precacheCdn(cache)]))
+      .then(() => self.skipWaiting()),
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys
+        .filter(key => key.startsWith('litla-sorpa-') && key !== CACHE_NAME)
+        .map(key => caches.delete(key))))
+      .then(() => self.clients.claim()),
+  );
+});
+
+// Serves the cached copy at once and stores a fresh one for next time
+async function staleWhileRevalidate(request) {
+  const cache = await caches.open(CACHE_NAME);
+  const cached = await cache.match(request);
+  const network = fetch(request)
+    .then(response => {
+      if (response.ok || response.type === 'opaque') cache.put(request, response.clone());
+      return response;
+    })
+    .catch(() => cached);
+  return cached || network;
+}
+
+// Pages always try the network so a new deploy shows up; offline they get the cached shell
+async function networkFirstPage(request) {
+  const cache = await caches.open(CACHE_NAME);
+  try {
+    const response = await fetch(request);
+    if (response.ok) cache.put('/index.html', response.clone());
+    return response;
+  } catch {
+    return (await cache.match('/index.html')) || Response.error();
+  }
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+  const sameOrigin = url.origin === self.location.origin;
+
+  // Live tokens and the Live API itself are never cached
+  if (sameOrigin && url.pathname.startsWith('/api/')) return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirstPage(request));
+  } else if (sameOrigin || CDN_HOSTS.includes(url.hostname)) {
+    event.respondWith(staleWhileRevalidate(request));
+  }
+});
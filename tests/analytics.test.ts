@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { SortingVerdict } from '../types';
+import {
+  dailySeries,
+  emptyAnalytics,
+  itemsToCsv,
+  parseAnalytics,
+  recordAskedForDetails,
+  recordSession,
+  recordVerdict,
+  toCsv,
+  topItems,
+} from '../utils/analytics';
+
+const verdict = (itemName: string, category: SortingVerdict['category'], confidence = 0.9): SortingVerdict => ({
+  id: itemName,
+  itemName,
+  category,
+  preparation: [],
+  takeToStation: category === null,
+  confidence,
+  timestamp: 0,
+});
+
+describe('analytics aggregation', () => {
+  it('counts items under one normalised name and keeps the first spelling', () => {
+    let data = emptyAnalytics('2026-03-01');
+    data = recordVerdict(data, verdict('Pítsukassi', 'Pappi'), 'is', '2026-03-01');
+    data = recordVerdict(data, verdict('pitsukassi', 'Almennt sorp'), 'is', '2026-03-02');
+    data = recordVerdict(data, verdict('Rafhlaða', null), 'en', '2026-03-02');
+
+    expect(topItems(data)[0]).toEqual({
+      name: 'Pítsukassi',
+      count: 2,
+      categories: { 'Pappi': 1, 'Almennt sorp': 1 },
+      lowConfidence: 0,
+      lastSeen: '2026-03-02',
+    });
+    expect(data.categories).toEqual({ 'Pappi': 1, 'Almennt sorp': 1, station: 1 });
+    expect(data.daily).toEqual({ '2026-03-01': 1, '2026-03-02': 2 });
+  });
+
+  it('lists low-confidence verdicts and questions the model could not answer', () => {
+    let data = emptyAnalytics('2026-03-01');
+    data = recordVerdict(data, verdict('Kaffihylki', 'Málmur', 0.4), 'pl', '2026-03-01');
+    data = recordAskedForDetails(data, 'Frauðplast', 'is', '2026-03-02');
+
+    expect(data.items['kaffihylki'].lowConfidence).toBe(1);
+    expect(data.uncertain).toEqual([
+      { date: '2026-03-02', itemName: 'Frauðplast', reason: 'asked-for-details', confidence: null, language: 'is' },
+      { date: '2026-03-01', itemName: 'Kaffihylki', reason: 'low-confidence', confidence: 0.4, language: 'pl' },
+    ]);
+  });
+
+  it('counts sessions by reply and interface language', () => {
+    const data = recordSession(recordSession(emptyAnalytics('2026-03-01'), { reply: 'is', ui: 'en' }), { reply: 'is', ui: 'is' });
+    expect(data.sessions).toBe(2);
+    expect(data.replyLanguages).toEqual({ is: 2 });
+    expect(data.uiLanguages).toEqual({ en: 1, is: 1 });
+  });
+
+  it('fills empty days in the daily series and drops days older than 90', () => {
+    let data = recordVerdict(emptyAnalytics('2025-12-01'), verdict('Dós', 'Málmur'), 'is', '2025-12-01');
+    data = recordVerdict(data, verdict('Dós', 'Málmur'), 'is', '2026-03-02');
+
+    expect(data.daily).toEqual({ '2026-03-02': 1 });
+    expect(dailySeries(data, 3, '2026-03-02')).toEqual([
+      { date: '2026-02-28', count: 0 },
+      { date: '2026-03-01', count: 0 },
+      { date: '2026-03-02', count: 1 },
+    ]);
+  });
+
+  it('resets malformed stored data', () => {
+    const data = parseAnalytics({ sessions: 'many', categories: { Plast: 'x' }, uncertain: null } as never, '2026-03-01');
+    expect(data).toEqual({ ...emptyAnalytics('2026-03-01') });
+  });
+});
+
+describe('CSV export', () => {
+  it('quotes separators and defuses spreadsheet formulas', () => {
+    expect(toCsv([['a,b', 'say "hi"', '=SUM(A1)', 3, null]])).toBe('"a,b","say ""hi""",\'=SUM(A1),3,');
+  });
+
+  it('writes one row per item, most asked first', () => {
+    let data = emptyAnalytics('2026-03-01');
+    data = recordVerdict(data, verdict('Gler', 'Gler'), 'is', '2026-03-01');
+    data = recordVerdict(data, verdict('Ferna', 'Pappi'), 'is', '2026-03-01');
+    data = recordVerdict(data, verdict('Ferna', 'Pappi', 0.5), 'is', '2026-03-01');
+
+    expect(itemsToCsv(data).split('\r\n')).toEqual([
+      'item,count,main_category,low_confidence,last_seen',
+      'Ferna,2,Pappi,1,2026-03-01',
+      'Gler,1,Gler,0,2026-03-01',
+    ]);
+  });
+});
@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { encode, encodeBase64 } from '../utils/audio';
+
+describe('encodeBase64', () => {
+  it('matches btoa for every padding length', () => {
+    for (let length = 0; length <= 5; length++) {
+      const bytes = Uint8Array.from({ length }, (_, i) => 250 - i * 61);
+      expect(encodeBase64(bytes)).toBe(encode(bytes));
+    }
+  });
+
+  it('encodes a full capture chunk of PCM', () => {
+    const pcm = Int16Array.from({ length: 1600 }, (_, i) => Math.round(Math.sin(i / 10) * 32767));
+    const bytes = new Uint8Array(pcm.buffer);
+    expect(encodeBase64(bytes)).toBe(Buffer.from(bytes).toString('base64'));
+  });
+
+  it('still works when its source is evaluated on its own, as in the capture worklet', () => {
+    const embedded = new Function(`return (${encodeBase64.toString()});`)() as typeof encodeBase64;
+    expect(embedded(new Uint8Array([1, 2, 3, 4]))).toBe('AQIDBA==');
+  });
+});
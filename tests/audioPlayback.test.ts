@@ -0,0 +1,133 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AudioPlayback, PlaybackState } from '../services/audioPlayback';
+import { FakeAudioContext } from './fakeAudioContext';
+import { pcmChunk } from './mockLiveServer';
+
+function setup() {
+  const ctx = new FakeAudioContext();
+  const playback = new AudioPlayback(ctx.asAudioContext(), ctx.destination as AudioNode, { jitterBufferMs: 100 });
+  const states: PlaybackState[] = [];
+  playback.subscribe(state => states.push(state));
+  const startTimes = () => ctx.sources.map(source => source.startTime);
+  return { ctx, playback, states, startTimes };
+}
+
+describe('AudioPlayback', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('holds audio back until the jitter buffer is full, then plays it gaplessly', () => {
+    const { playback, states, startTimes } = setup();
+
+    playback.enqueue(pcmChunk(0.04));
+    playback.enqueue(pcmChunk(0.04));
+    expect(startTimes()).toEqual([]);
+    expect(states).toEqual(['buffering']);
+
+    playback.enqueue(pcmChunk(0.04));
+    playback.enqueue(pcmChunk(0.1));
+
+    expect(startTimes()).toEqual([0.02, 0.06, 0.1, expect.closeTo(0.14)]);
+    expect(states).toEqual(['buffering', 'playing']);
+  });
+
+  it('starts a short reply once the jitter window runs out', () => {
+    const { playback, startTimes } = setup();
+
+    playback.enqueue(pcmChunk(0.03));
+    vi.advanceTimersByTime(99);
+    expect(startTimes()).toEqual([]);
+
+    vi.advanceTimersByTime(1);
+    expect(startTimes()).toEqual([0.02]);
+  });
+
+  it('goes idle after the last chunk and re-buffers after an underrun', () => {
+    const { ctx, playback, states, startTimes } = setup();
+
+    playback.enqueue(pcmChunk(0.2));
+    ctx.advance(0.5);
+    expect(states).toEqual(['playing', 'idle']);
+
+    playback.enqueue(pcmChunk(0.2));
+    expect(startTimes()).toEqual([0.02, 0.52]);
+  });
+
+  it('flushes playing and buffered audio instantly on interrupt', () => {
+    const { ctx, playback, states } = setup();
+
+    playback.enqueue(pcmChunk(0.2));
+    playback.enqueue(pcmChunk(0.2));
+    ctx.advance(0.1);
+    playback.interrupt();
+
+    expect(ctx.sources.every(source => source.stopped)).toBe(true);
+    expect(states).toEqual(['playing', 'idle']);
+
+    // A chunk still in the jitter buffer is dropped too
+    playback.enqueue(pcmChunk(0.05));
+    playback.interrupt();
+    vi.advanceTimersByTime(1000);
+    expect(ctx.sources).toHaveLength(2);
+  });
+
+  it('schedules the next turn from the current time after an interrupt', () => {
+    const { ctx, playback, startTimes } = setup();
+
+    playback.enqueue(pcmChunk(1));
+    ctx.advance(0.3);
+    playback.interrupt();
+    playback.enqueue(pcmChunk(0.2));
+
+    expect(startTimes()[1]).toBeCloseTo(0.32);
+  });
+
+  it('plays held-back audio right away at the end of a turn', () => {
+    const { playback, startTimes } = setup();
+
+    playback.enqueue(pcmChunk(0.03));
+    playback.endOfTurn();
+
+    expect(startTimes()).toEqual([0.02]);
+  });
+
+  it('passes the audio actually playing through the analyser the visualizer reads', () => {
+    const { ctx, playback } = setup();
+    const level = () => {
+      const samples = new Float32Array(playback.analyser.fftSize);
+      playback.analyser.getFloatTimeDomainData(samples);
+      return Math.sqrt(samples.reduce((sum, sample) => sum + sample * sample, 0) / samples.length);
+    };
+    expect(level()).toBe(0);
+
+    playback.enqueue(pcmChunk(0.5, 0.5));
+    ctx.advance(0.1);
+
+    // RMS of a sine with amplitude 0.5
+    expect(level()).toBeCloseTo(0.5 / Math.SQRT2, 1);
+  });
+
+  it('stops notifying and ignores audio after close', () => {
+    const { ctx, playback, states } = setup();
+
+    playback.enqueue(pcmChunk(0.2));
+    playback.close();
+    expect(playback.enqueue(pcmChunk(0.2))).toBe(0);
+
+    expect(ctx.sources).toHaveLength(1);
+    expect(states).toEqual(['playing', 'idle']);
+  });
+
+  it('uses the sample rate of the chunk', () => {
+    const { ctx, playback } = setup();
+
+    // 0.1 s worth of samples at 24 kHz is 0.15 s at 16 kHz
+    expect(playback.enqueue(pcmChunk(0.1), 16000)).toBeCloseTo(0.15);
+    expect(ctx.sources[0].buffer?.sampleRate).toBe(16000);
+  });
+});
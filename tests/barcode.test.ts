@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { decodeBarcode, decodeScanline, isValidGtin, toGtin13 } from '../utils/barcode';
+
+const L = ['0001101', '0011001', '0010011', '0111101', '0100011', '0110001', '0101111', '0111011', '0110111', '0001011'];
+const PARITY = ['LLLLLL', 'LLGLGG', 'LLGGLG', 'LLGGGL', 'LGLLGG', 'LGGLLG', 'LGGGLL', 'LGLGLG', 'LGLGGL', 'LGGLGL'];
+const invert = (bits: string) => [...bits].map(bit => (bit === '1' ? '0' : '1')).join('');
+
+// The 95 modules of an EAN-13, 1 for a bar
+function encodeEan13(code: string): string {
+  const digits = [...code].map(Number);
+  const left = digits.slice(1, 7).map((digit, i) =>
+    PARITY[digits[0]][i] === 'L' ? L[digit] : [...invert(L[digit])].reverse().join(''));
+  const right = digits.slice(7).map(digit => invert(L[digit]));
+  return `101${left.join('')}01010${right.join('')}101`;
+}
+
+// Luminance values with a quiet zone on both sides; bars are dark grey on off-white
+function scanline(code: string, pixelsPerModule: number): number[] {
+  const modules = `${'0'.repeat(12)}${encodeEan13(code)}${'0'.repeat(12)}`;
+  const length = Math.round(modules.length * pixelsPerModule);
+  return Array.from({ length }, (_, x) => (modules[Math.floor(x / pixelsPerModule)] === '1' ? 40 : 220));
+}
+
+describe('isValidGtin', () => {
+  it('checks the check digit of EAN-13, UPC-A and EAN-8 codes', () => {
+    expect(isValidGtin('5901234123457')).toBe(true);
+    expect(isValidGtin('5901234123458')).toBe(false);
+    expect(isValidGtin('036000291452')).toBe(true);
+    expect(isValidGtin('96385074')).toBe(true);
+    expect(isValidGtin('59012341234')).toBe(false);
+  });
+
+  it('gives UPC-A codes their leading zero', () => {
+    expect(toGtin13('036000291452')).toBe('0036000291452');
+    expect(toGtin13('5901234123457')).toBe('5901234123457');
+  });
+});
+
+describe('decodeScanline', () => {
+  it('decodes an EAN-13 at whole and fractional module widths', () => {
+    expect(decodeScanline(scanline('5901234123457', 3))).toBe('5901234123457');
+    expect(decodeScanline(scanline('5690527000017', 2.4))).toBe('5690527000017');
+  });
+
+  it('decodes a UPC-A as an EAN-13 with a leading zero', () => {
+    expect(decodeScanline(scanline('0036000291452', 2))).toBe('0036000291452');
+  });
+
+  it('reads a barcode upside down', () => {
+    expect(decodeScanline(scanline('5901234123457', 3).reverse())).toBe('5901234123457');
+  });
+
+  it('finds nothing in a flat or striped line', () => {
+    expect(decodeScanline(new Array(400).fill(200))).toBeNull();
+    expect(decodeScanline(Array.from({ length: 400 }, (_, x) => (Math.floor(x / 3) % 2 ? 40 : 220)))).toBeNull();
+  });
+});
+
+describe('decodeBarcode', () => {
+  it('finds a barcode held sideways by scanning columns', () => {
+    const line = scanline('5901234123457', 2);
+    const width = 60;
+    const height = line.length;
+    const data = new Uint8ClampedArray(width * height * 4);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const i = (y * width + x) * 4;
+        data.set([line[y], line[y], line[y], 255], i);
+      }
+    }
+    expect(decodeBarcode({ data, width, height })).toBe('5901234123457');
+  });
+});
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { buildHistoryTurns } from '../utils/conversationContext';
+import { LogMessage } from '../types';
+
+const log = (type: LogMessage['type'], text: string): LogMessage => ({ type, text, timestamp: 0 });
+
+describe('buildHistoryTurns', () => {
+  it('skips system lines and merges consecutive messages from one speaker', () => {
+    const turns = buildHistoryTurns([
+      log('system', 'Tengt'),
+      log('user', 'Hvert fer pizzakassi?'),
+      log('user', 'Hann er fitugur.'),
+      log('model', 'Í almennt sorp.'),
+      log('system', 'Skipt yfir í texta'),
+    ]);
+
+    expect(turns).toEqual([
+      { role: 'user', parts: [{ text: 'Hvert fer pizzakassi?\nHann er fitugur.' }] },
+      { role: 'model', parts: [{ text: 'Í almennt sorp.' }] },
+    ]);
+  });
+
+  it('keeps only the most recent turns and starts on a user turn', () => {
+    const turns = buildHistoryTurns([
+      log('user', 'a'), log('model', 'b'), log('user', 'c'), log('model', 'd'),
+    ], 3);
+
+    expect(turns.map(turn => turn.parts?.[0]?.text)).toEqual(['c', 'd']);
+  });
+});
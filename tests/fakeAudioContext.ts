@@ -0,0 +1,91 @@
+// Just enough of the Web Audio API for AudioPlayback, with a clock the test controls
+
+type FakeAudioBuffer = ReturnType<FakeAudioContext['createBuffer']>;
+
+export class FakeAudioBufferSource {
+  buffer: FakeAudioBuffer | null = null;
+  startTime: number | null = null;
+  stopped = false;
+  private endedListeners: (() => void)[] = [];
+
+  connect(): void {}
+
+  start(when = 0): void {
+    this.startTime = when;
+  }
+
+  stop(): void {
+    if (this.stopped) return;
+    this.stopped = true;
+    this.endedListeners.forEach(listener => listener());
+  }
+
+  addEventListener(type: string, listener: () => void): void {
+    if (type === 'ended') this.endedListeners.push(listener);
+  }
+
+  get endTime(): number {
+    return (this.startTime ?? 0) + (this.buffer?.duration ?? 0);
+  }
+}
+
+/** Reports the samples of whichever source is playing at the context's current time. */
+export class FakeAnalyserNode {
+  fftSize = 2048;
+
+  constructor(private readonly ctx: FakeAudioContext) {}
+
+  connect(): void {}
+  disconnect(): void {}
+
+  getFloatTimeDomainData(array: Float32Array): void {
+    array.fill(0);
+    const { currentTime } = this.ctx;
+    const source = this.ctx.sources.find(s =>
+      !s.stopped && s.startTime !== null && s.startTime <= currentTime && currentTime < s.endTime);
+    if (!source?.buffer) return;
+
+    const samples = source.buffer.getChannelData(0);
+    const offset = Math.floor((currentTime - (source.startTime ?? 0)) * source.buffer.sampleRate);
+    array.set(samples.subarray(offset, offset + array.length));
+  }
+}
+
+export class FakeAudioContext {
+  currentTime = 0;
+  readonly sources: FakeAudioBufferSource[] = [];
+  readonly destination = {};
+
+  createBuffer(numberOfChannels: number, length: number, sampleRate: number) {
+    const channels = Array.from({ length: numberOfChannels }, () => new Float32Array(length));
+    return {
+      numberOfChannels,
+      length,
+      sampleRate,
+      duration: length / sampleRate,
+      getChannelData: (channel: number) => channels[channel],
+    };
+  }
+
+  createAnalyser(): FakeAnalyserNode {
+    return new FakeAnalyserNode(this);
+  }
+
+  createBufferSource(): FakeAudioBufferSource {
+    const source = new FakeAudioBufferSource();
+    this.sources.push(source);
+    return source;
+  }
+
+  /** Moves the clock forward, firing `ended` on sources that finished. */
+  advance(seconds: number): void {
+    this.currentTime += seconds;
+    this.sources
+      .filter(source => source.startTime !== null && !source.stopped && source.endTime <= this.currentTime)
+      .forEach(source => source.stop());
+  }
+
+  asAudioContext(): AudioContext {
+    return this as unknown as AudioContext;
+  }
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { PickupRule } from '../types';
+import { easterSunday, getHoliday, getIcelandicHolidays, getUpcomingHolidays } from '../utils/holidays';
+import { getNextPickups } from '../utils/pickupCalendar';
+
+const dateOf = (year: number, name: string) => getIcelandicHolidays(year).find(h => h.name === name)?.date;
+
+describe('Icelandic holidays', () => {
+  it('computes Easter Sunday', () => {
+    expect(easterSunday(2024)).toBe('2024-03-31');
+    expect(easterSunday(2025)).toBe('2025-04-20');
+    expect(easterSunday(2026)).toBe('2026-04-05');
+  });
+
+  it('places the Easter-based holidays', () => {
+    expect(dateOf(2025, 'Skírdagur')).toBe('2025-04-17');
+    expect(dateOf(2025, 'Föstudagurinn langi')).toBe('2025-04-18');
+    expect(dateOf(2025, 'Annar í páskum')).toBe('2025-04-21');
+    expect(dateOf(2025, 'Uppstigningardagur')).toBe('2025-05-29');
+    expect(dateOf(2025, 'Annar í hvítasunnu')).toBe('2025-06-09');
+  });
+
+  it('puts Sumardagurinn fyrsti on the first Thursday after 18 April', () => {
+    expect(dateOf(2018, 'Sumardagurinn fyrsti')).toBe('2018-04-19');
+    expect(dateOf(2024, 'Sumardagurinn fyrsti')).toBe('2024-04-25');
+    expect(dateOf(2025, 'Sumardagurinn fyrsti')).toBe('2025-04-24');
+  });
+
+  it('puts Frídagur verslunarmanna on the first Monday in August', () => {
+    expect(dateOf(2021, 'Frídagur verslunarmanna')).toBe('2021-08-02');
+    expect(dateOf(2024, 'Frídagur verslunarmanna')).toBe('2024-08-05');
+    expect(dateOf(2026, 'Frídagur verslunarmanna')).toBe('2026-08-03');
+  });
+
+  it('marks Aðfangadagur as a half day and finds holidays across the new year', () => {
+    expect(getHoliday('2025-12-24')).toMatchObject({ name: 'Aðfangadagur', halfDay: true });
+    expect(getHoliday('2025-12-23')).toBeUndefined();
+    expect(getUpcomingHolidays('2025-12-30', 3).map(h => h.name)).toEqual(['Gamlársdagur', 'Nýársdagur']);
+  });
+});
+
+describe('getNextPickups', () => {
+  const rule = (anchorDate: string): PickupRule => ({ area: 'Prófun', category: 'Plast', intervalWeeks: 1, anchorDate });
+
+  it('moves a pickup on a holiday to the next working day', () => {
+    // Monday 21 April 2025 is Annar í páskum
+    expect(getNextPickups(rule('2025-04-07'), '2025-04-19', 2)).toEqual([
+      { date: '2025-04-22', scheduledDate: '2025-04-21', movedForHoliday: 'Annar í páskum' },
+      { date: '2025-04-28', scheduledDate: '2025-04-28' },
+    ]);
+  });
+
+  it('skips a weekend and further holidays when moving', () => {
+    // Skírdagur, then Föstudagurinn langi, the weekend and Annar í páskum
+    expect(getNextPickups(rule('2025-04-03'), '2025-04-15')[0])
+      .toEqual({ date: '2025-04-22', scheduledDate: '2025-04-17', movedForHoliday: 'Skírdagur' });
+  });
+
+  it('includes a pickup moved past the start date from the cycle before', () => {
+    expect(getNextPickups(rule('2025-04-03'), '2025-04-20')[0].date).toBe('2025-04-22');
+  });
+
+  it('keeps pickups on half-day holidays', () => {
+    expect(getNextPickups(rule('2025-12-03'), '2025-12-22')[0])
+      .toEqual({ date: '2025-12-24', scheduledDate: '2025-12-24' });
+  });
+});
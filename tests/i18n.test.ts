@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { CATALOGUES, createI18n, detectLanguage, i18nForSetting, resolveLocale } from '../i18n';
+
+describe('detectLanguage', () => {
+  it('picks the first supported language in the browser preferences', () => {
+    expect(detectLanguage(['de-DE', 'pl-PL', 'en-US'])).toBe('pl');
+    expect(detectLanguage(['IS'])).toBe('is');
+  });
+
+  it('falls back to English for unsupported languages and Icelandic for none', () => {
+    expect(detectLanguage(['de-DE', 'fr'])).toBe('en');
+    expect(detectLanguage([])).toBe('is');
+  });
+});
+
+describe('resolveLocale', () => {
+  it('keeps the browser region when it matches the language', () => {
+    expect(resolveLocale('en', ['en-US', 'is-IS'])).toBe('en-US');
+  });
+
+  it('uses the default region otherwise', () => {
+    expect(resolveLocale('pl', ['en-US'])).toBe('pl-PL');
+  });
+});
+
+describe('i18n', () => {
+  it('follows the browser when the setting is automatic', () => {
+    expect(i18nForSetting('auto', ['pl']).t).toBe(CATALOGUES.pl);
+    expect(i18nForSetting('is', ['pl']).t).toBe(CATALOGUES.is);
+  });
+
+  it('formats numbers and dates for the chosen locale', () => {
+    const timestamp = Date.UTC(2025, 0, 15, 12, 0);
+    expect(createI18n('is').formatNumber(1.5)).toBe('1,5');
+    expect(createI18n('en', ['en-US']).formatNumber(1234)).toBe('1,234');
+    expect(createI18n('pl').formatDateTime(timestamp, { month: 'long', timeZone: 'UTC' })).toBe('styczeń');
+  });
+
+  it('uses Polish plural forms in the history summary', () => {
+    expect(CATALOGUES.pl.history.summary(1, 3, 5)).toBe('1 wiadomość · 3 klasyfikacje · 5 zdjęć');
+    expect(CATALOGUES.en.history.summary(1, 2, 0)).toBe('1 message · 2 verdicts · 0 photos');
+  });
+});
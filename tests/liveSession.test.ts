@@ -0,0 +1,90 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_RECONNECT_POLICY, getReconnectDelay, ResilientLiveSession } from '../services/liveSession';
+import { MockLiveServer } from './mockLiveServer';
+
+const audio = (data: string) => ({ data, mimeType: 'audio/pcm;rate=16000' });
+
+function setup(maxBufferedChunks = 40) {
+  const server = new MockLiveServer();
+  const session = new ResilientLiveSession(server.connector, {
+    onStateChange: () => {},
+    onMessage: () => {},
+  }, { maxBufferedChunks });
+  return { server, session };
+}
+
+describe('getReconnectDelay', () => {
+  it('grows exponentially up to the cap', () => {
+    const delays = [0, 1, 2, 3, 4, 5].map(attempt => getReconnectDelay(DEFAULT_RECONNECT_POLICY, attempt));
+    expect(delays).toEqual([500, 1000, 2000, 4000, 8000, 10000]);
+  });
+});
+
+describe('ResilientLiveSession', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('buffers audio sent before the socket opens', async () => {
+    const { server, session } = setup();
+
+    const started = session.start();
+    session.sendAudio(audio('a'));
+    expect(session.bufferedChunkCount).toBe(1);
+    await started;
+
+    expect(server.latest.realtimeInputs).toEqual([{ media: audio('a') }]);
+    expect(session.bufferedChunkCount).toBe(0);
+  });
+
+  it('reopens speech that was in progress when the connection dropped', async () => {
+    const { server, session } = setup();
+    await session.start();
+
+    session.sendActivityStart();
+    server.latest.drop();
+    session.sendAudio(audio('a'));
+    session.sendAudio(audio('b'));
+    session.sendActivityEnd();
+    await vi.advanceTimersByTimeAsync(DEFAULT_RECONNECT_POLICY.initialDelayMs);
+
+    expect(server.latest.realtimeInputs).toEqual([
+      { activityStart: {} },
+      { media: audio('a') },
+      { media: audio('b') },
+      { activityEnd: {} },
+    ]);
+  });
+
+  it('drops the oldest audio when the buffer is full but keeps activity markers', async () => {
+    const { server, session } = setup(3);
+    await session.start();
+
+    server.latest.drop();
+    session.sendActivityStart();
+    session.sendAudio(audio('a'));
+    session.sendAudio(audio('b'));
+    session.sendAudio(audio('c'));
+    await vi.advanceTimersByTimeAsync(DEFAULT_RECONNECT_POLICY.initialDelayMs);
+
+    expect(server.latest.realtimeInputs).toEqual([
+      { activityStart: {} },
+      { media: audio('b') },
+      { media: audio('c') },
+    ]);
+  });
+
+  it('refuses non-audio input while the socket is down', async () => {
+    const { server, session } = setup();
+    await session.start();
+
+    server.latest.drop();
+    expect(session.sendClientContent({ turns: 'halló', turnComplete: true })).toBe(false);
+    expect(session.sendRealtimeInput({ text: 'halló' })).toBe(false);
+    expect(session.isOpen).toBe(false);
+  });
+});
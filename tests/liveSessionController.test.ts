@@ -0,0 +1,332 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ConnectionState } from '../types';
+import { AudioPlayback } from '../services/audioPlayback';
+import { LiveSessionController, LiveSessionControllerEvents } from '../services/liveSessionController';
+import { FakeAudioContext } from './fakeAudioContext';
+import {
+  audioMessage,
+  goAwayMessage,
+  interruptedMessage,
+  MockLiveServer,
+  resumptionMessage,
+  textMessage,
+  toolCallMessage,
+  transcriptMessage,
+  turnCompleteMessage,
+} from './mockLiveServer';
+
+function setup(policy = { initialDelayMs: 100, maxDelayMs: 1000, multiplier: 2, maxAttempts: 3 }) {
+  const server = new MockLiveServer();
+  const ctx = new FakeAudioContext();
+  const events = {
+    onStateChange: vi.fn(),
+    onOpen: vi.fn(),
+    onReconnectScheduled: vi.fn(),
+    onGiveUp: vi.fn(),
+    onTranscript: vi.fn(),
+    onModelAudio: vi.fn(),
+    onTurnComplete: vi.fn(),
+    onInterrupted: vi.fn(),
+    onVerdict: vi.fn(),
+    onStations: vi.fn(),
+    onPhotoItems: vi.fn(),
+  } satisfies LiveSessionControllerEvents;
+
+  const controller = new LiveSessionController({
+    connector: server.connector,
+    audioOutput: new AudioPlayback(ctx.asAudioContext(), ctx.destination as AudioNode),
+    now: () => new Date('2026-03-10T12:00:00Z'),
+    session: { policy },
+  }, events);
+
+  const states = () => events.onStateChange.mock.calls.map(([state]) => state);
+
+  return { server, ctx, events, controller, states };
+}
+
+describe('LiveSessionController', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  describe('connection state', () => {
+    it('goes from CONNECTING to CONNECTED on start', async () => {
+      const { controller, events, states } = setup();
+      await controller.start();
+
+      expect(states()).toEqual([ConnectionState.CONNECTING, ConnectionState.CONNECTED]);
+      expect(events.onOpen).toHaveBeenCalledWith({ reconnected: false });
+    });
+
+    it('reconnects with the latest resumption handle after the server hangs up', async () => {
+      const { controller, server, events, states } = setup();
+      await controller.start();
+
+      server.latest.play([{ message: resumptionMessage('handle-1') }, { close: true }]);
+      expect(states().at(-1)).toBe(ConnectionState.RECONNECTING);
+      expect(events.onReconnectScheduled).toHaveBeenCalledWith({ attempt: 1, delayMs: 100 });
+
+      await vi.advanceTimersByTimeAsync(100);
+
+      expect(server.connections).toHaveLength(2);
+      expect(server.latest.resumptionHandle).toBe('handle-1');
+      expect(states().at(-1)).toBe(ConnectionState.CONNECTED);
+      expect(events.onOpen).toHaveBeenLastCalledWith({ reconnected: true });
+    });
+
+    it('treats a socket error as a drop', async () => {
+      const { controller, server, states } = setup();
+      await controller.start();
+
+      server.latest.play([{ error: 'boom' }]);
+      expect(states().at(-1)).toBe(ConnectionState.RECONNECTING);
+
+      await vi.advanceTimersByTimeAsync(100);
+      expect(server.connections).toHaveLength(2);
+    });
+
+    it('moves to a new connection right away on goAway', async () => {
+      const { controller, server } = setup();
+      await controller.start();
+      const first = server.latest;
+
+      first.emit(goAwayMessage());
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(first.closed).toBe(true);
+      expect(server.connections).toHaveLength(2);
+    });
+
+    it('backs off and gives up with ERROR when the server stays down', async () => {
+      const { controller, server, events, states } = setup();
+      await controller.start();
+
+      server.refuseNextConnections(10);
+      server.latest.drop();
+      await vi.advanceTimersByTimeAsync(100 + 200 + 400);
+
+      expect(events.onReconnectScheduled.mock.calls.map(([info]) => info.delayMs)).toEqual([100, 200, 400]);
+      expect(states().at(-1)).toBe(ConnectionState.ERROR);
+      expect(events.onGiveUp).toHaveBeenCalledTimes(1);
+      expect(server.connections).toHaveLength(1);
+    });
+
+    it('rejects start when the first connection fails', async () => {
+      const { controller, server } = setup();
+      server.refuseNextConnections(1);
+
+      await expect(controller.start()).rejects.toThrow('refused');
+    });
+  });
+
+  describe('audio', () => {
+    it('queues every inline audio part and reports its duration', async () => {
+      const { controller, server, ctx, events } = setup();
+      await controller.start();
+
+      server.latest.emit(audioMessage(0.1, 0.2));
+      await controller.idle();
+
+      expect(ctx.sources.map(source => source.buffer?.duration)).toEqual([0.1, 0.2]);
+      expect(events.onModelAudio.mock.calls).toEqual([[0.1], [0.2]]);
+    });
+
+    it('plays a short reply as soon as the turn completes', async () => {
+      const { controller, server, ctx } = setup();
+      await controller.start();
+
+      server.latest.emit(audioMessage(0.05));
+      await controller.idle();
+      expect(ctx.sources).toHaveLength(0);
+
+      server.latest.emit(turnCompleteMessage());
+      await controller.idle();
+      expect(ctx.sources).toHaveLength(1);
+    });
+
+    it('flushes queued audio on interruption', async () => {
+      const { controller, server, ctx, events } = setup();
+      await controller.start();
+
+      server.latest.play([{ message: audioMessage(0.2) }, { message: audioMessage(0.2) }]);
+      await controller.idle();
+      ctx.advance(0.05);
+
+      server.latest.emit(interruptedMessage());
+      await controller.idle();
+
+      expect(ctx.sources).toHaveLength(2);
+      expect(ctx.sources.every(source => source.stopped)).toBe(true);
+      expect(events.onInterrupted).toHaveBeenCalledTimes(1);
+    });
+
+    it('does not let an interruption overtake audio that arrived before it', async () => {
+      const { controller, server, ctx } = setup();
+      await controller.start();
+
+      server.latest.play([{ message: audioMessage(0.2) }, { message: interruptedMessage() }]);
+      await controller.idle();
+
+      expect(ctx.sources).toHaveLength(1);
+      expect(ctx.sources[0].stopped).toBe(true);
+    });
+  });
+
+  describe('messages', () => {
+    it('reports transcripts and turn completion', async () => {
+      const { controller, server, events } = setup();
+      await controller.start();
+
+      server.latest.play([
+        { message: transcriptMessage('user', 'Hvert fer ') },
+        { message: transcriptMessage('user', 'pítsukassi?') },
+        { message: transcriptMessage('model', 'Í pappa.') },
+        { message: turnCompleteMessage() },
+      ]);
+      await controller.idle();
+
+      expect(events.onTranscript.mock.calls).toEqual([
+        ['user', 'Hvert fer '],
+        ['user', 'pítsukassi?'],
+        ['model', 'Í pappa.'],
+      ]);
+      expect(events.onTurnComplete).toHaveBeenCalledTimes(1);
+    });
+
+    it('runs tool calls and sends the responses back', async () => {
+      const { controller, server, events } = setup();
+      await controller.start();
+
+      server.latest.emit(toolCallMessage('call-1', 'classify_item', {
+        itemName: 'Pítsukassi',
+        category: 'Pappi',
+        confidence: 0.9,
+      }));
+      await controller.idle();
+
+      expect(events.onVerdict).toHaveBeenCalledWith(expect.objectContaining({ itemName: 'Pítsukassi', category: 'Pappi' }));
+      const [response] = server.latest.toolResponses;
+      expect(response.functionResponses).toEqual([
+        expect.objectContaining({ id: 'call-1', name: 'classify_item' }),
+      ]);
+    });
+
+    it('reports every item found in a photo with its bounding box', async () => {
+      const { controller, server, events } = setup();
+      await controller.start();
+
+      server.latest.emit(toolCallMessage('call-3', 'report_photo_items', {
+        items: [
+          { itemName: 'Dós', category: 'Málmur', confidence: 0.8, box_2d: [100, 200, 400, 500] },
+          { itemName: 'Rafhlaða', takeToStation: true, confidence: 0.9, box_2d: [500, 500, 600, 650] },
+        ],
+      }));
+      await controller.idle();
+
+      expect(events.onPhotoItems).toHaveBeenCalledWith([
+        expect.objectContaining({ itemName: 'Dós', box: { top: 0.1, left: 0.2, bottom: 0.4, right: 0.5 } }),
+        expect.objectContaining({ itemName: 'Rafhlaða', category: null, takeToStation: true }),
+      ]);
+      expect(server.latest.toolResponses[0].functionResponses).toEqual([
+        expect.objectContaining({ id: 'call-3', response: { output: expect.any(String) } }),
+      ]);
+    });
+
+    it('answers unknown functions with an error instead of throwing', async () => {
+      const { controller, server } = setup();
+      await controller.start();
+
+      server.latest.emit(toolCallMessage('call-2', 'order_pizza', {}));
+      await controller.idle();
+
+      const [response] = server.latest.toolResponses;
+      expect(response.functionResponses).toEqual([
+        expect.objectContaining({ id: 'call-2', response: { error: expect.any(String) } }),
+      ]);
+    });
+  });
+
+  describe('text mode', () => {
+    it('streams answer text without an audio output', async () => {
+      const server = new MockLiveServer();
+      const events = { onStateChange: vi.fn(), onTranscript: vi.fn(), onTurnComplete: vi.fn() };
+      const controller = new LiveSessionController({ connector: server.connector }, events);
+      await controller.start();
+
+      server.latest.play([
+        { message: textMessage('Pítsukassinn fer ', 'í **pappa**.') },
+        { message: turnCompleteMessage() },
+      ]);
+      await controller.idle();
+
+      expect(events.onTranscript.mock.calls).toEqual([
+        ['model', 'Pítsukassinn fer '],
+        ['model', 'í **pappa**.'],
+      ]);
+      expect(events.onTurnComplete).toHaveBeenCalledTimes(1);
+      controller.close();
+    });
+  });
+
+  describe('cleanup', () => {
+    it('closes the socket, silences audio and never reconnects', async () => {
+      const { controller, server, ctx, events, states } = setup();
+      await controller.start();
+
+      server.latest.emit(audioMessage(0.5));
+      await controller.idle();
+      controller.close();
+
+      expect(server.latest.closed).toBe(true);
+      expect(ctx.sources[0].stopped).toBe(true);
+
+      await vi.advanceTimersByTimeAsync(10_000);
+      expect(server.connections).toHaveLength(1);
+      expect(states()).not.toContain(ConnectionState.RECONNECTING);
+      expect(events.onReconnectScheduled).not.toHaveBeenCalled();
+    });
+
+    it('ignores messages that arrive after close', async () => {
+      const { controller, server, ctx, events } = setup();
+      await controller.start();
+      const connection = server.latest;
+
+      controller.close();
+      connection.emit(audioMessage(0.1));
+      connection.emit(turnCompleteMessage());
+      await controller.idle();
+
+      expect(ctx.sources).toHaveLength(0);
+      expect(events.onTurnComplete).not.toHaveBeenCalled();
+    });
+
+    it('drops a connection that finishes opening after close', async () => {
+      const { controller, server, states } = setup();
+
+      const started = controller.start();
+      controller.close();
+      await started;
+
+      expect(server.latest.closed).toBe(true);
+      expect(states()).not.toContain(ConnectionState.CONNECTED);
+    });
+
+    it('does not send tool responses once closed', async () => {
+      const { controller, server } = setup();
+      await controller.start();
+      const connection = server.latest;
+
+      connection.emit(toolCallMessage('call-3', 'lookup_item', { query: 'rafhlaða' }));
+      controller.close();
+      await controller.idle();
+
+      expect(connection.toolResponses).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { parseInline, parseMarkdown } from '../utils/markdown';
+
+describe('parseInline', () => {
+  it('parses code, bold, italic and links', () => {
+    expect(parseInline('Setjið **gler** í *grenndargám*, sjá [vefinn](https://sorpa.is) eða `kóða`')).toEqual([
+      { type: 'text', text: 'Setjið ' },
+      { type: 'strong', children: [{ type: 'text', text: 'gler' }] },
+      { type: 'text', text: ' í ' },
+      { type: 'em', children: [{ type: 'text', text: 'grenndargám' }] },
+      { type: 'text', text: ', sjá ' },
+      { type: 'link', href: 'https://sorpa.is', children: [{ type: 'text', text: 'vefinn' }] },
+      { type: 'text', text: ' eða ' },
+      { type: 'code', text: 'kóða' },
+    ]);
+  });
+
+  it('keeps unsafe links as plain text', () => {
+    expect(parseInline('[smelltu](javascript:void)')).toEqual([{ type: 'text', text: 'smelltu' }]);
+  });
+
+  it('leaves an unclosed marker from a streaming answer as text', () => {
+    expect(parseInline('Þetta er **hálf')).toEqual([{ type: 'text', text: 'Þetta er **hálf' }]);
+  });
+});
+
+describe('parseMarkdown', () => {
+  it('splits headings, lists, code and paragraphs', () => {
+    const blocks = parseMarkdown('## Flokkun\n- Dós\n- Flaska\n\n1. Skola\n2. Flokka\n\n```\nkóði\n```\nLokaorð');
+    expect(blocks.map(block => block.type)).toEqual(['heading', 'list', 'list', 'code', 'paragraph']);
+    expect(blocks[1]).toMatchObject({ ordered: false, items: [[{ text: 'Dós' }], [{ text: 'Flaska' }]] });
+    expect(blocks[2]).toMatchObject({ ordered: true });
+    expect(blocks[3]).toEqual({ type: 'code', text: 'kóði' });
+  });
+
+  it('treats an unclosed fence as ordinary text', () => {
+    expect(parseMarkdown('```\nenn að koma')).toEqual([
+      { type: 'paragraph', children: [{ type: 'text', text: '```\nenn að koma' }] },
+    ]);
+  });
+});
@@ -0,0 +1,68 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { MicrophoneError, openMicrophone, toMicrophoneError } from '../utils/microphone';
+
+const SETTINGS = { micDeviceId: 'usb-mic', echoCancellation: true, noiseSuppression: false, autoGainControl: true };
+
+const domError = (name: string) => Object.assign(new Error(name), { name });
+
+function stubBrowser(getUserMedia: (constraints: MediaStreamConstraints) => Promise<MediaStream>, isSecureContext = true) {
+  const mock = vi.fn(getUserMedia);
+  vi.stubGlobal('window', { isSecureContext });
+  vi.stubGlobal('navigator', { mediaDevices: { getUserMedia: mock } });
+  return mock;
+}
+
+describe('toMicrophoneError', () => {
+  it.each([
+    ['NotAllowedError', 'permission-denied'],
+    ['SecurityError', 'permission-denied'],
+    ['NotFoundError', 'no-device'],
+    ['OverconstrainedError', 'no-device'],
+    ['NotReadableError', 'device-in-use'],
+    ['TypeError', 'unknown'],
+  ])('maps %s to %s', (name, code) => {
+    expect(toMicrophoneError(domError(name)).code).toBe(code);
+  });
+});
+
+describe('openMicrophone', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('passes the chosen device and processing toggles to getUserMedia', async () => {
+    const stream = {} as MediaStream;
+    const getUserMedia = stubBrowser(async () => stream);
+
+    await expect(openMicrophone(SETTINGS)).resolves.toBe(stream);
+    expect(getUserMedia).toHaveBeenCalledWith({
+      audio: { deviceId: { exact: 'usb-mic' }, echoCancellation: true, noiseSuppression: false, autoGainControl: true },
+    });
+  });
+
+  it('falls back to the default microphone when the saved one is gone', async () => {
+    const stream = {} as MediaStream;
+    const getUserMedia = stubBrowser(async constraints =>
+      (constraints.audio as MediaTrackConstraints).deviceId ? Promise.reject(domError('OverconstrainedError')) : stream,
+    );
+
+    await expect(openMicrophone(SETTINGS)).resolves.toBe(stream);
+    expect(getUserMedia).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not retry when permission is denied', async () => {
+    const getUserMedia = stubBrowser(() => Promise.reject(domError('NotAllowedError')));
+
+    const error = await openMicrophone(SETTINGS).catch(e => e);
+    expect(error).toBeInstanceOf(MicrophoneError);
+    expect(error.code).toBe('permission-denied');
+    expect(getUserMedia).toHaveBeenCalledTimes(1);
+  });
+
+  it('refuses to open outside a secure context', async () => {
+    const getUserMedia = stubBrowser(async () => ({}) as MediaStream, false);
+
+    await expect(openMicrophone(SETTINGS)).rejects.toMatchObject({ code: 'insecure-context' });
+    expect(getUserMedia).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,147 @@
+import {
+  LiveCallbacks,
+  LiveSendClientContentParameters,
+  LiveSendRealtimeInputParameters,
+  LiveSendToolResponseParameters,
+  LiveServerMessage,
+} from '@google/genai';
+import { LiveSessionLike, SessionConnector } from '../services/liveSession';
+import { OUTPUT_SAMPLE_RATE } from '../services/audioPlayback';
+import { encode } from '../utils/audio';
+
+// One step of a scripted server turn
+export type ScriptStep =
+  | { message: LiveServerMessage }
+  | { error: string }
+  | { close: true };
+
+/** One socket opened by the code under test. Records everything the client sends. */
+export class MockLiveConnection implements LiveSessionLike {
+  readonly realtimeInputs: LiveSendRealtimeInputParameters[] = [];
+  readonly clientContents: LiveSendClientContentParameters[] = [];
+  readonly toolResponses: LiveSendToolResponseParameters[] = [];
+  closed = false;
+
+  constructor(readonly callbacks: LiveCallbacks, readonly resumptionHandle: string | undefined) {}
+
+  sendRealtimeInput(params: LiveSendRealtimeInputParameters): void {
+    this.assertOpen();
+    this.realtimeInputs.push(params);
+  }
+
+  sendClientContent(params: LiveSendClientContentParameters): void {
+    this.assertOpen();
+    this.clientContents.push(params);
+  }
+
+  sendToolResponse(params: LiveSendToolResponseParameters): void {
+    this.assertOpen();
+    this.toolResponses.push(params);
+  }
+
+  // Like the SDK, a client-side close still fires onclose
+  close(): void {
+    if (this.closed) return;
+    this.closed = true;
+    this.callbacks.onclose?.({ code: 1000, reason: 'client closed' } as CloseEvent);
+  }
+
+  emit(message: LiveServerMessage): void {
+    this.callbacks.onmessage(message);
+  }
+
+  /** Socket error; the server side closes afterwards as a real socket would. */
+  fail(reason = 'mock error'): void {
+    this.callbacks.onerror?.({ message: reason } as ErrorEvent);
+  }
+
+  /** Server hangs up. */
+  drop(reason = 'server closed'): void {
+    this.closed = true;
+    this.callbacks.onclose?.({ code: 1011, reason } as CloseEvent);
+  }
+
+  play(script: ScriptStep[]): void {
+    for (const step of script) {
+      if ('message' in step) this.emit(step.message);
+      else if ('error' in step) this.fail(step.error);
+      else this.drop();
+    }
+  }
+
+  private assertOpen() {
+    if (this.closed) throw new Error('Sent on a closed mock connection');
+  }
+}
+
+/** Stands in for the Gemini Live endpoint; pass `connector` wherever a SessionConnector is expected. */
+export class MockLiveServer {
+  readonly connections: MockLiveConnection[] = [];
+  private refusals = 0;
+
+  readonly connector: SessionConnector = async (callbacks, resumptionHandle) => {
+    if (this.refusals > 0) {
+      this.refusals--;
+      throw new Error('Mock server refused the connection');
+    }
+    const connection = new MockLiveConnection(callbacks, resumptionHandle);
+    this.connections.push(connection);
+    callbacks.onopen?.();
+    return connection;
+  };
+
+  get latest(): MockLiveConnection {
+    const connection = this.connections[this.connections.length - 1];
+    if (!connection) throw new Error('No connection has been opened');
+    return connection;
+  }
+
+  refuseNextConnections(count: number): void {
+    this.refusals = count;
+  }
+}
+
+const message = (fields: Partial<LiveServerMessage>): LiveServerMessage =>
+  Object.assign(new LiveServerMessage(), fields);
+
+/** Base64 mono 16-bit PCM at the output rate, as the model sends it. */
+export function pcmChunk(durationSeconds: number, amplitude = 0.25): string {
+  const samples = new Int16Array(Math.round(durationSeconds * OUTPUT_SAMPLE_RATE));
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = Math.round(Math.sin(i / 10) * amplitude * 32767);
+  }
+  return encode(new Uint8Array(samples.buffer));
+}
+
+/** One model turn fragment with an inline audio part per duration. */
+export const audioMessage = (...durationsSeconds: number[]): LiveServerMessage => message({
+  serverContent: {
+    modelTurn: {
+      parts: durationsSeconds.map(duration => ({
+        inlineData: { mimeType: `audio/pcm;rate=${OUTPUT_SAMPLE_RATE}`, data: pcmChunk(duration) },
+      })),
+    },
+  },
+});
+
+export const transcriptMessage = (speaker: 'user' | 'model', text: string): LiveServerMessage => message({
+  serverContent: speaker === 'user' ? { inputTranscription: { text } } : { outputTranscription: { text } },
+});
+
+export const textMessage = (...chunks: string[]): LiveServerMessage => message({
+  serverContent: { modelTurn: { parts: chunks.map(text => ({ text })) } },
+});
+
+export const turnCompleteMessage = (): LiveServerMessage => message({ serverContent: { turnComplete: true } });
+
+export const interruptedMessage = (): LiveServerMessage => message({ serverContent: { interrupted: true } });
+
+export const toolCallMessage = (id: string, name: string, args: Record<string, unknown>): LiveServerMessage => message({
+  toolCall: { functionCalls: [{ id, name, args }] },
+});
+
+export const resumptionMessage = (handle: string): LiveServerMessage => message({
+  sessionResumptionUpdate: { resumable: true, newHandle: handle },
+});
+
+export const goAwayMessage = (): LiveServerMessage => message({ goAway: { timeLeft: '5s' } });
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { catalogueName, lookupOffline } from '../utils/offlineAnswers';
+
+describe('lookupOffline', () => {
+  it('answers an exact name or synonym, ignoring case and accents', () => {
+    expect(lookupOffline('rafhlöður').match?.id).toBe('battery');
+    expect(lookupOffline('PIZZA BOX').match?.category).toBe('Pappi');
+    expect(lookupOffline('pitsukassi').match?.id).toBe('pizza-box');
+  });
+
+  it('only suggests candidates for partial names', () => {
+    const kaffi = lookupOffline('kaffi');
+    expect(kaffi.match).toBeNull();
+    expect(kaffi.candidates.length).toBeGreaterThan(0);
+
+    expect(lookupOffline('box')).toMatchObject({ match: null });
+  });
+
+  it('gives nothing for very short, unknown or empty queries', () => {
+    expect(lookupOffline('a')).toEqual({ match: null, candidates: [] });
+    expect(lookupOffline('geimskip')).toEqual({ match: null, candidates: [] });
+    expect(lookupOffline('  ')).toEqual({ match: null, candidates: [] });
+  });
+
+  it('names items in English for English and Polish', () => {
+    const item = lookupOffline('Pítsukassi').match!;
+    expect(catalogueName(item, 'is')).toBe('Pítsukassi');
+    expect(catalogueName(item, 'pl')).toBe('Pizza box');
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { PRODUCT_PACKAGING } from '../data/productPackaging';
+import { parsePackagingVerdict } from '../tools/reportPackaging';
+import { isValidGtin } from '../utils/barcode';
+import { describePackaging, findProductPackaging } from '../utils/packaging';
+
+describe('product packaging table', () => {
+  it('only holds valid, unique EAN-13 codes', () => {
+    const codes = PRODUCT_PACKAGING.map(product => product.gtin);
+    expect(codes.every(code => code.length === 13 && isValidGtin(code))).toBe(true);
+    expect(new Set(codes).size).toBe(codes.length);
+  });
+
+  it('finds products by EAN-13 and by UPC-A', () => {
+    expect(findProductPackaging('5690001000014')?.name).toBe('Sódavatn 500 ml');
+    expect(findProductPackaging('036000291452')?.gtin).toBe('0036000291452');
+    expect(findProductPackaging('5901234123457')).toBeNull();
+  });
+
+  it('describes the parts for the model', () => {
+    const product = findProductPackaging('5690001000083')!;
+    expect(describePackaging(product.components)).toBe('Rafhlöður: gámastöð, Spjald: Pappi, Plastbóla: Plast');
+  });
+});
+
+describe('parsePackagingVerdict', () => {
+  it('keeps valid parts from the model and drops the rest', () => {
+    const verdict = parsePackagingVerdict({
+      barcode: '5901234123457',
+      productName: 'Tómatsósa',
+      confidence: 1.4,
+      components: [
+        { part: 'Flaska', category: 'Plast', preparation: ['Skolaðu flöskuna.', ''] },
+        { part: 'Tappi', category: 'Plastík' },
+        { part: 'Miði', category: 'Almennt sorp' },
+      ],
+    }, 'call-1');
+
+    expect(verdict).toMatchObject({
+      id: 'call-1',
+      barcode: '5901234123457',
+      source: 'model',
+      confidence: 1,
+      components: [
+        { part: 'Flaska', category: 'Plast', takeToStation: false, notes: ['Skolaðu flöskuna.'] },
+        { part: 'Miði', category: 'Almennt sorp', takeToStation: false, notes: [] },
+      ],
+    });
+  });
+
+  it('rejects a product without a name or any valid part', () => {
+    expect(parsePackagingVerdict({ productName: 'Tómatsósa', components: [{ part: 'Flaska' }] }, 'call-1')).toBeNull();
+    expect(parsePackagingVerdict({ components: [{ part: 'Flaska', category: 'Plast' }] }, 'call-1')).toBeNull();
+  });
+});
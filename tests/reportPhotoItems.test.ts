@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { parseBoundingBox, parseDetectedItems } from '../tools/reportPhotoItems';
+
+describe('parseBoundingBox', () => {
+  it('converts a 0-1000 box_2d into fractions, clamped to the image', () => {
+    expect(parseBoundingBox([0, 250, 500, 1200])).toEqual({ top: 0, left: 0.25, bottom: 0.5, right: 1 });
+  });
+
+  it('rejects malformed and empty boxes', () => {
+    expect(parseBoundingBox([10, 20, 30])).toBeNull();
+    expect(parseBoundingBox([10, 20, '30', 40])).toBeNull();
+    expect(parseBoundingBox([300, 200, 300, 400])).toBeNull();
+    expect(parseBoundingBox(undefined)).toBeNull();
+  });
+});
+
+describe('parseDetectedItems', () => {
+  it('drops invalid items but keeps the rest', () => {
+    const items = parseDetectedItems({
+      items: [
+        { itemName: 'Glerkrukka', category: 'Gler', confidence: 0.7, box_2d: [0, 0, 500, 500] },
+        { itemName: 'Óþekkt', category: 'Geimrusl', confidence: 0.5, box_2d: [0, 0, 100, 100] },
+        { itemName: 'Mjólkurferna', category: 'Pappi', confidence: 0.9 },
+        'not an item',
+      ],
+    }, 'call-1');
+
+    expect(items).toHaveLength(1);
+    expect(items[0]).toMatchObject({ id: 'call-1-0', itemName: 'Glerkrukka', category: 'Gler' });
+  });
+
+  it('returns nothing when items are missing', () => {
+    expect(parseDetectedItems(undefined, 'call-1')).toEqual([]);
+    expect(parseDetectedItems({ items: 'Dós' }, 'call-1')).toEqual([]);
+  });
+});
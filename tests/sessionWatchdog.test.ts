@@ -0,0 +1,70 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { SessionWatchdog } from '../services/sessionWatchdog';
+
+const MINUTE = 60_000;
+
+function setup(idleTimeoutMs: number | null = 2 * MINUTE, maxSessionMs: number | null = 10 * MINUTE) {
+  const events = { onWarning: vi.fn(), onWarningCleared: vi.fn(), onLimit: vi.fn() };
+  const watchdog = new SessionWatchdog({ idleTimeoutMs, maxSessionMs, warningMs: 30_000 }, events);
+  return { watchdog, events };
+}
+
+describe('SessionWatchdog', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('warns before ending an idle session', () => {
+    const { watchdog, events } = setup();
+    watchdog.start();
+
+    vi.advanceTimersByTime(90_000);
+    expect(events.onWarning).toHaveBeenCalledWith('idle', 30_000);
+    expect(events.onLimit).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(30_000);
+    expect(events.onLimit).toHaveBeenCalledWith('idle');
+  });
+
+  it('restarts the idle timer on activity and clears a shown warning', () => {
+    const { watchdog, events } = setup();
+    watchdog.start();
+
+    vi.advanceTimersByTime(100_000);
+    watchdog.noteActivity();
+    expect(events.onWarningCleared).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(100_000);
+    expect(events.onLimit).not.toHaveBeenCalled();
+    vi.advanceTimersByTime(20_000);
+    expect(events.onLimit).toHaveBeenCalledWith('idle');
+  });
+
+  it('ends the session at the maximum length however active the user is', () => {
+    const { watchdog, events } = setup(null);
+    watchdog.start();
+
+    for (let minute = 0; minute < 10; minute++) {
+      vi.advanceTimersByTime(MINUTE);
+      watchdog.noteActivity();
+    }
+
+    expect(events.onWarning).toHaveBeenCalledWith('max-length', 30_000);
+    expect(events.onLimit).toHaveBeenCalledTimes(1);
+    expect(events.onLimit).toHaveBeenCalledWith('max-length');
+  });
+
+  it('does nothing after stop', () => {
+    const { watchdog, events } = setup();
+    watchdog.start();
+    watchdog.stop();
+
+    vi.advanceTimersByTime(60 * MINUTE);
+    expect(events.onWarning).not.toHaveBeenCalled();
+    expect(events.onLimit).not.toHaveBeenCalled();
+  });
+});
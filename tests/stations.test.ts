@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { OpeningSpan, RecyclingStation } from '../types';
+import { findStations, getHoursOn, isStationOpen } from '../utils/stations';
+
+const span = (open: string, close: string): OpeningSpan => ({ open, close });
+const WEEK = [span('12:30', '18:30'), ...Array(5).fill(span('12:30', '19:00')), span('12:30', '18:30')];
+
+const station = (id: string, latitude: number, longitude: number, overrides: Partial<RecyclingStation> = {}): RecyclingStation => ({
+  id,
+  name: id,
+  address: '',
+  latitude,
+  longitude,
+  materials: ['Rafhlöður'],
+  hours: WEEK,
+  holidayHours: { 'Aðfangadagur': span('09:00', '12:00') },
+  ...overrides,
+});
+
+// Iceland is on UTC, so these are local wall-clock times
+const at = (iso: string) => new Date(`${iso}Z`);
+
+const SORPA = station('sorpa', 64.13, -21.9);
+
+describe('isStationOpen', () => {
+  it('opens on the opening minute and closes on the closing minute', () => {
+    // Tuesday
+    expect(isStationOpen(SORPA, at('2025-03-04T12:29'))).toBe(false);
+    expect(isStationOpen(SORPA, at('2025-03-04T12:30'))).toBe(true);
+    expect(isStationOpen(SORPA, at('2025-03-04T18:59'))).toBe(true);
+    expect(isStationOpen(SORPA, at('2025-03-04T19:00'))).toBe(false);
+  });
+
+  it('uses the shortened hours on Aðfangadagur', () => {
+    expect(getHoursOn(SORPA, at('2025-12-24T10:00'))).toEqual({ hours: span('09:00', '12:00'), holidayName: 'Aðfangadagur' });
+    expect(isStationOpen(SORPA, at('2025-12-24T09:00'))).toBe(true);
+    expect(isStationOpen(SORPA, at('2025-12-24T12:00'))).toBe(false);
+    expect(isStationOpen(SORPA, at('2025-12-24T13:00'))).toBe(false);
+  });
+
+  it('is closed on a public holiday without its own hours', () => {
+    expect(getHoursOn(SORPA, at('2025-04-18T14:00'))).toEqual({ hours: null, holidayName: 'Föstudagurinn langi' });
+    expect(isStationOpen(SORPA, at('2025-04-18T14:00'))).toBe(false);
+  });
+});
+
+describe('findStations', () => {
+  const closedTuesdays = WEEK.map((hours, day) => (day === 2 ? null : hours));
+  const stations = [
+    station('akureyri', 65.68, -18.09),
+    station('hafnarfjordur', 64.06, -21.96, { hours: closedTuesdays }),
+    station('reykjavik', 64.14, -21.94, { materials: ['Raftæki'] }),
+  ];
+  const tuesday = at('2025-03-04T15:00');
+
+  it('sorts by distance when a location is given', () => {
+    const matches = findStations({ now: tuesday, near: { latitude: 64.07, longitude: -21.95 } }, stations);
+    expect(matches.map(m => m.station.id)).toEqual(['hafnarfjordur', 'reykjavik', 'akureyri']);
+    expect(matches[0].distanceKm).toBeLessThan(2);
+  });
+
+  it('puts open stations first without a location', () => {
+    const matches = findStations({ now: tuesday }, stations);
+    expect(matches.map(m => m.station.id)).toEqual(['akureyri', 'reykjavik', 'hafnarfjordur']);
+    expect(matches.every(m => m.distanceKm === undefined)).toBe(true);
+  });
+
+  it('filters by material and open now', () => {
+    expect(findStations({ now: tuesday, material: 'Rafhlöður', openNow: true }, stations).map(m => m.station.id))
+      .toEqual(['akureyri']);
+  });
+});
@@ -0,0 +1,16 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { buildSystemInstruction } from '../utils/systemPrompt';
+
+describe('buildSystemInstruction', () => {
+  const originalTz = process.env.TZ;
+
+  afterEach(() => {
+    process.env.TZ = originalTz;
+  });
+
+  it('gives the Icelandic date and time whatever the server clock is set to', () => {
+    process.env.TZ = 'America/Los_Angeles';
+    const prompt = buildSystemInstruction({ now: new Date('2025-03-04T23:30:00Z') });
+    expect(prompt).toContain('Í dag er þriðjudagur, 4. mars 2025 og klukkan er 23:30.');
+  });
+});
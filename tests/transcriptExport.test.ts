@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { conversationToMarkdown } from '../utils/transcriptExport';
+import { ConversationRecord } from '../types';
+
+const record: ConversationRecord = {
+  id: 'abc',
+  startedAt: Date.UTC(2025, 2, 4, 12, 0),
+  endedAt: Date.UTC(2025, 2, 4, 12, 5),
+  model: 'test-model',
+  images: [],
+  logs: [],
+  verdicts: [{
+    id: 'v1',
+    itemName: 'Kassi | lok',
+    category: 'Pappi',
+    preparation: ['Brjóta saman\nog fletja', 'Taka | teip af'],
+    takeToStation: false,
+    confidence: 0.9,
+    timestamp: Date.UTC(2025, 2, 4, 12, 1),
+  }],
+};
+
+describe('conversationToMarkdown', () => {
+  it('keeps each verdict on one table row', () => {
+    const row = conversationToMarkdown(record).split('\n').find(line => line.includes('Kassi'));
+    expect(row).toContain('| Kassi \\| lok | Pappi | 90% | Brjóta saman og fletja; Taka \\| teip af |');
+  });
+
+  it('lists scanned products, and leaves them out of records saved without any', () => {
+    const markdown = conversationToMarkdown({
+      ...record,
+      packaging: [{
+        id: 'p1',
+        barcode: '5690527000015',
+        productName: 'Mjólk',
+        components: [{ part: 'Ferna', category: 'Pappi', takeToStation: false, notes: [] }],
+        source: 'model',
+        confidence: 0.8,
+        timestamp: Date.UTC(2025, 2, 4, 12, 2),
+      }],
+    });
+    expect(markdown).toContain('| Mjólk | 5690527000015 | Ferna: Pappi | Líkan, 80% |');
+    expect(conversationToMarkdown(record)).not.toContain('## Strikamerki');
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { UsageMeter } from '../services/usageMeter';
+
+describe('UsageMeter', () => {
+  it('counts connected time only while connected', () => {
+    let now = 0;
+    const meter = new UsageMeter(() => now);
+
+    meter.setConnected(true);
+    now = 5000;
+    meter.setConnected(false); // Reconnecting
+    now = 8000;
+    meter.setConnected(true);
+    now = 10_000;
+
+    expect(meter.snapshot().connectedMs).toBe(7000);
+  });
+
+  it('adds up audio, images and tokens', () => {
+    const meter = new UsageMeter();
+
+    meter.addAudioSent(0.1);
+    meter.addAudioSent(0.1);
+    meter.addAudioReceived(1.5);
+    meter.addImage();
+    meter.addCameraFrame();
+    meter.addCameraFrame();
+    meter.addUsageMetadata({ promptTokenCount: 100, responseTokenCount: 40, totalTokenCount: 140 });
+    meter.addUsageMetadata({ promptTokenCount: 60, totalTokenCount: 60 });
+
+    expect(meter.snapshot()).toEqual({
+      connectedMs: 0,
+      audioSentSeconds: expect.closeTo(0.2),
+      audioReceivedSeconds: 1.5,
+      imagesSent: 1,
+      cameraFrames: 2,
+      promptTokens: 160,
+      responseTokens: 40,
+      totalTokens: 200,
+    });
+  });
+});
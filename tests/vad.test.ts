@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { VoiceActivityDetector } from '../utils/vad';
+import { SpeechGate, SpeechSink } from '../services/speechGate';
+
+const LOUD = 0.05;
+const MID = 0.015; // Between the stop and start thresholds
+const QUIET = 0.001;
+const CHUNK_MS = 100;
+
+function setup(mode: 'vad' | 'push-to-talk') {
+  const calls: string[] = [];
+  const sink: SpeechSink = {
+    sendAudio: data => calls.push(data),
+    sendActivityStart: () => calls.push('start'),
+    sendActivityEnd: () => calls.push('end'),
+  };
+  return { gate: new SpeechGate(sink, { mode }), calls };
+}
+
+describe('VoiceActivityDetector', () => {
+  it('starts above the start threshold and keeps going above the stop threshold', () => {
+    const vad = new VoiceActivityDetector();
+    expect(vad.process(MID, CHUNK_MS)).toBeNull();
+    expect(vad.process(LOUD, CHUNK_MS)).toBe('start');
+    expect(vad.process(LOUD, CHUNK_MS)).toBeNull();
+
+    for (let i = 0; i < 20; i++) {
+      expect(vad.process(MID, CHUNK_MS)).toBeNull();
+    }
+  });
+
+  it('ends only once the level has stayed low for the hangover', () => {
+    const vad = new VoiceActivityDetector({ hangoverMs: 700 });
+    vad.process(LOUD, CHUNK_MS);
+
+    for (let i = 0; i < 6; i++) {
+      expect(vad.process(QUIET, CHUNK_MS)).toBeNull();
+    }
+    expect(vad.process(LOUD, CHUNK_MS)).toBeNull(); // A word resets the hangover
+
+    for (let i = 0; i < 6; i++) {
+      expect(vad.process(QUIET, CHUNK_MS)).toBeNull();
+    }
+    expect(vad.process(QUIET, CHUNK_MS)).toBe('end');
+    expect(vad.process(MID, CHUNK_MS)).toBeNull();
+  });
+});
+
+describe('SpeechGate', () => {
+  it('sends only the last 300 ms before speech, bracketed by activity signals', () => {
+    const { gate, calls } = setup('vad');
+    ['a', 'b', 'c', 'd', 'e'].forEach(data => gate.processChunk(data, QUIET, CHUNK_MS));
+    expect(calls).toEqual([]);
+
+    gate.processChunk('f', LOUD, CHUNK_MS);
+    expect(calls).toEqual(['start', 'c', 'd', 'e', 'f']);
+
+    for (let i = 0; i < 7; i++) gate.processChunk(`q${i}`, QUIET, CHUNK_MS);
+    expect(calls.slice(-2)).toEqual(['q6', 'end']);
+
+    gate.processChunk('after', QUIET, CHUNK_MS);
+    expect(calls.at(-1)).toBe('end');
+  });
+
+  it('sends audio only while push-to-talk is held', () => {
+    const { gate, calls } = setup('push-to-talk');
+    gate.processChunk('before', LOUD, CHUNK_MS);
+    gate.pressTalk();
+    gate.pressTalk();
+    gate.processChunk('held', QUIET, CHUNK_MS);
+    gate.releaseTalk();
+    gate.releaseTalk();
+    gate.processChunk('after', LOUD, CHUNK_MS);
+
+    expect(calls).toEqual(['start', 'held', 'end']);
+  });
+
+  it('ignores the talk button in VAD mode', () => {
+    const { gate, calls } = setup('vad');
+    gate.pressTalk();
+    gate.releaseTalk();
+    expect(calls).toEqual([]);
+  });
+});
@@ -0,0 +1,81 @@
+import { FunctionDeclaration, Type } from '@google/genai';
+import { SortingVerdict, WASTE_CATEGORIES, WasteCategory } from '../types';
+import { ToolDefinition } from './types';
+
+export const classifyItemDeclaration: FunctionDeclaration = {
+  name: 'classify_item',
+  description: 'Skráir niðurstöðu flokkunar fyrir einn hlut svo hún birtist notandanum á skjánum. Kallaðu á þetta fall í hvert skipti sem þú segir í hvaða tunnu hlutur fer.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      itemName: {
+        type: Type.STRING,
+        description: 'Heiti hlutarins á máli notandans, t.d. "Pítsukassi".',
+      },
+      category: {
+        type: Type.STRING,
+        enum: [...WASTE_CATEGORIES],
+        description: 'Flokkurinn sem hluturinn fer í. Slepptu ef hluturinn fer á gámastöð.',
+      },
+      takeToStation: {
+        type: Type.BOOLEAN,
+        description: 'Satt ef hluturinn á ekki heima í tunnu heldur á gámastöð.',
+      },
+      preparation: {
+        type: Type.ARRAY,
+        items: { type: Type.STRING },
+        description: 'Stuttar leiðbeiningar um undirbúning, t.d. "Skolaðu fernuna". Tómur listi ef ekkert þarf að gera.',
+      },
+      confidence: {
+        type: Type.NUMBER,
+        description: 'Hversu viss þú ert um flokkunina, frá 0 til 1.',
+      },
+    },
+    required: ['itemName', 'confidence'],
+  },
+};
+
+export const isWasteCategory = (value: unknown): value is WasteCategory =>
+  typeof value === 'string' && (WASTE_CATEGORIES as readonly string[]).includes(value);
+
+/**
+ * Validates the raw function-call arguments from the model and turns them into a verdict.
+ * Returns null when the model sent something we cannot display.
+ */
+export function parseSortingVerdict(args: Record<string, unknown> | undefined, id: string): SortingVerdict | null {
+  if (!args) return null;
+
+  const itemName = typeof args.itemName === 'string' ? args.itemName.trim() : '';
+  const takeToStation = args.takeToStation === true;
+  const category = isWasteCategory(args.category) ? args.category : null;
+  if (!itemName || (!category && !takeToStation)) return null;
+
+  const preparation = Array.isArray(args.preparation)
+    ? args.preparation.filter((step): step is string => typeof step === 'string' && step.trim().length > 0)
+    : [];
+
+  const rawConfidence = typeof args.confidence === 'number' ? args.confidence : 0;
+  const confidence = Math.max(0, Math.min(1, rawConfidence));
+
+  return {
+    id,
+    itemName,
+    category,
+    preparation,
+    takeToStation,
+    confidence,
+    timestamp: Date.now(),
+  };
+}
+
+export const classifyItemTool: ToolDefinition = {
+  declaration: classifyItemDeclaration,
+  execute: (args, context) => {
+    const verdict = parseSortingVerdict(args, context.callId);
+    if (!verdict) {
+      return { error: `Ógild flokkun. Leyfðir flokkar: ${WASTE_CATEGORIES.join(', ')}.` };
+    }
+    context.onVerdict(verdict);
+    return { output: 'Flokkun birt notanda.' };
+  },
+};
@@ -0,0 +1,56 @@
+import { FunctionDeclaration, Type } from '@google/genai';
+import { STATION_MATERIALS, StationMaterial } from '../types';
+import { STATIONS_VERSION } from '../data/recyclingStations';
+import { findStations } from '../utils/stations';
+import { ToolDefinition } from './types';
+
+export const findStationsDeclaration: FunctionDeclaration = {
+  name: 'find_stations',
+  description: 'Finnur gámastöðvar sem taka við tilteknu efni og/eða eru opnar núna, raðað eftir fjarlægð ef staðsetning notanda er þekkt. Niðurstaðan birtist líka á skjánum.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      material: {
+        type: Type.STRING,
+        enum: [...STATION_MATERIALS],
+        description: 'Efnið sem notandinn vill skila, t.d. stationMaterial úr lookup_item.',
+      },
+      openNow: {
+        type: Type.BOOLEAN,
+        description: 'Satt ef aðeins á að sýna stöðvar sem eru opnar núna.',
+      },
+    },
+  },
+};
+
+const isStationMaterial = (value: unknown): value is StationMaterial =>
+  typeof value === 'string' && (STATION_MATERIALS as readonly string[]).includes(value);
+
+export const findStationsTool: ToolDefinition = {
+  declaration: findStationsDeclaration,
+  execute: async (args, context) => {
+    const location = context.getLocation ? await context.getLocation() : null;
+    const matches = findStations({
+      now: context.now?.() ?? new Date(),
+      material: isStationMaterial(args?.material) ? args.material : undefined,
+      openNow: args?.openNow === true,
+      near: location,
+      limit: 3,
+    });
+
+    context.onStations(matches);
+
+    return {
+      stationsVersion: STATIONS_VERSION,
+      locationKnown: location !== null,
+      stations: matches.map(match => ({
+        name: match.station.name,
+        address: match.station.address,
+        isOpen: match.isOpen,
+        todayHours: match.todayHours ? `${match.todayHours.open}–${match.todayHours.close}` : 'Lokað í dag',
+        holiday: match.holidayName,
+        distanceKm: match.distanceKm !== undefined ? Math.round(match.distanceKm * 10) / 10 : undefined,
+      })),
+    };
+  },
+};
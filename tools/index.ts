@@ -0,0 +1,47 @@
+import { FunctionResponse, LiveServerToolCall } from '@google/genai';
+import { classifyItemTool } from './classifyItem';
+import { lookupItemTool } from './lookupItem';
+import { nextPickupTool } from './nextPickup';
+import { findStationsTool } from './findStations';
+import { reportPhotoItemsTool } from './reportPhotoItems';
+import { reportPackagingTool } from './reportPackaging';
+import { reportUncertainTool } from './reportUncertain';
+import { ToolContext, ToolDefinition } from './types';
+
+export type { ToolContext, ToolDefinition, ToolResult } from './types';
+
+const TOOLS: ToolDefinition[] = [lookupItemTool, classifyItemTool, reportPhotoItemsTool, reportPackagingTool, reportUncertainTool, nextPickupTool, findStationsTool];
+
+export const toolDeclarations = TOOLS.map(tool => tool.declaration);
+
+/**
+ * Runs every function call in a Live API `toolCall` message and collects the responses
+ * that have to be sent back with `sendToolResponse`.
+ */
+export async function handleToolCall(
+  toolCall: LiveServerToolCall,
+  context: Omit<ToolContext, 'callId'>,
+): Promise<FunctionResponse[]> {
+  const responses: FunctionResponse[] = [];
+
+  for (const call of toolCall.functionCalls ?? []) {
+    const callId = call.id ?? `${call.name}-${Date.now()}`;
+    const tool = TOOLS.find(t => t.declaration.name === call.name);
+
+    let response: Record<string, unknown>;
+    if (!tool) {
+      response = { error: `Óþekkt fall: ${call.name}` };
+    } else {
+      try {
+        response = await tool.execute(call.args, { ...context, callId });
+      } catch (error) {
+        console.error(`Tool ${call.name} failed`, error);
+        response = { error: 'Villa kom upp við keyrslu fallsins.' };
+      }
+    }
+
+    responses.push({ id: call.id, name: call.name, response });
+  }
+
+  return responses;
+}
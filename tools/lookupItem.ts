@@ -0,0 +1,46 @@
+import { FunctionDeclaration, Type } from '@google/genai';
+import { CATALOGUE_VERSION } from '../data/wasteCatalogue';
+import { findCatalogueItems } from '../utils/catalogue';
+import { ToolDefinition } from './types';
+
+export const lookupItemDeclaration: FunctionDeclaration = {
+  name: 'lookup_item',
+  description: 'Flettir hlut upp í flokkunarskrá Litlu Gámaleigunnar. Kallaðu alltaf á þetta fall áður en þú segir notandanum hvert hlutur fer.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      query: {
+        type: Type.STRING,
+        description: 'Heiti hlutarins á íslensku eða ensku, t.d. "rafhlaða" eða "pizza box".',
+      },
+    },
+    required: ['query'],
+  },
+};
+
+export const lookupItemTool: ToolDefinition = {
+  declaration: lookupItemDeclaration,
+  execute: (args) => {
+    const query = typeof args?.query === 'string' ? args.query : '';
+    const matches = findCatalogueItems(query);
+
+    if (matches.length === 0) {
+      return {
+        catalogueVersion: CATALOGUE_VERSION,
+        matches: [],
+        output: 'Hluturinn er ekki í skránni. Notaðu almennu reglurnar og segðu frá ef þú ert ekki viss.',
+      };
+    }
+
+    return {
+      catalogueVersion: CATALOGUE_VERSION,
+      matches: matches.map(item => ({
+        name: item.names.is[0],
+        category: item.category,
+        takeToStation: item.takeToStation,
+        stationMaterial: item.stationMaterial,
+        notes: item.notes,
+      })),
+    };
+  },
+};
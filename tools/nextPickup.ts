@@ -0,0 +1,65 @@
+import { FunctionDeclaration, Type } from '@google/genai';
+import { WASTE_CATEGORIES, WasteCategory } from '../types';
+import { PICKUP_AREAS, PICKUP_SCHEDULE_VERSION } from '../data/pickupSchedule';
+import { findPickupRule, getNextPickups } from '../utils/pickupCalendar';
+import { fromIsoDate, toIsoDate } from '../utils/holidays';
+import { ToolDefinition } from './types';
+
+export const nextPickupDeclaration: FunctionDeclaration = {
+  name: 'next_pickup',
+  description: 'Reiknar út næstu sorphirðudaga fyrir tiltekna tunnu og hverfi, að teknu tilliti til rauðra daga. Notaðu þetta þegar spurt er hvenær tunnan verður tæmd.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      category: {
+        type: Type.STRING,
+        enum: [...WASTE_CATEGORIES],
+        description: 'Tunnan sem spurt er um.',
+      },
+      area: {
+        type: Type.STRING,
+        enum: PICKUP_AREAS,
+        description: 'Hverfi notandans. Spyrðu notandann ef það er óljóst.',
+      },
+      count: {
+        type: Type.INTEGER,
+        description: 'Hversu marga næstu daga á að sækja (1 til 5). Sjálfgefið 1.',
+      },
+    },
+    required: ['category', 'area'],
+  },
+};
+
+const formatDay = (iso: string) =>
+  fromIsoDate(iso).toLocaleDateString('is-IS', { weekday: 'long', day: 'numeric', month: 'long', timeZone: 'UTC' });
+
+export const nextPickupTool: ToolDefinition = {
+  declaration: nextPickupDeclaration,
+  execute: (args, context) => {
+    const category = args?.category as WasteCategory;
+    const area = typeof args?.area === 'string' ? args.area : '';
+    const count = Math.max(1, Math.min(5, typeof args?.count === 'number' ? Math.round(args.count) : 1));
+
+    const rule = findPickupRule(area, category);
+    if (!rule) {
+      return {
+        error: `Engin sorphirðuáætlun fannst fyrir "${category}" í "${area}".`,
+        knownAreas: PICKUP_AREAS,
+      };
+    }
+
+    const today = toIsoDate(context.now?.() ?? new Date());
+    return {
+      scheduleVersion: PICKUP_SCHEDULE_VERSION,
+      area: rule.area,
+      category: rule.category,
+      intervalWeeks: rule.intervalWeeks,
+      pickups: getNextPickups(rule, today, count).map(pickup => ({
+        date: pickup.date,
+        day: formatDay(pickup.date),
+        movedForHoliday: pickup.movedForHoliday,
+        originalDay: pickup.movedForHoliday ? formatDay(pickup.scheduledDate) : undefined,
+      })),
+    };
+  },
+};
@@ -0,0 +1,105 @@
+import { FunctionDeclaration, Type } from '@google/genai';
+import { PackagingComponent, PackagingVerdict, WASTE_CATEGORIES } from '../types';
+import { isWasteCategory } from './classifyItem';
+import { ToolDefinition } from './types';
+
+export const reportPackagingDeclaration: FunctionDeclaration = {
+  name: 'report_packaging',
+  description: 'Skráir umbúðir vöru sem var skönnuð en er ekki í vöruskránni, skipt í þá hluta sem flokkast sitt í hvoru lagi, svo þær birtist notandanum á skjánum.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      barcode: {
+        type: Type.STRING,
+        description: 'Strikamerkið sem var skannað, óbreytt.',
+      },
+      productName: {
+        type: Type.STRING,
+        description: 'Heiti vörunnar eins og það sést á myndinni, eða stutt lýsing ef það sést ekki.',
+      },
+      components: {
+        type: Type.ARRAY,
+        description: 'Einn liður fyrir hvern hluta umbúðanna, t.d. flösku, tappa og miða.',
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            part: {
+              type: Type.STRING,
+              description: 'Heiti hlutans á máli notandans, t.d. "Tappi".',
+            },
+            category: {
+              type: Type.STRING,
+              enum: [...WASTE_CATEGORIES],
+              description: 'Flokkurinn sem hlutinn fer í. Slepptu ef hann fer á gámastöð.',
+            },
+            takeToStation: {
+              type: Type.BOOLEAN,
+              description: 'Satt ef hlutinn á ekki heima í tunnu heldur á gámastöð.',
+            },
+            preparation: {
+              type: Type.ARRAY,
+              items: { type: Type.STRING },
+              description: 'Stuttar leiðbeiningar, t.d. "Skolaðu flöskuna". Tómur listi ef ekkert þarf að gera.',
+            },
+          },
+          required: ['part'],
+        },
+      },
+      confidence: {
+        type: Type.NUMBER,
+        description: 'Hversu viss þú ert um efni umbúðanna, frá 0 til 1.',
+      },
+    },
+    required: ['barcode', 'productName', 'components', 'confidence'],
+  },
+};
+
+function parseComponent(raw: unknown): PackagingComponent | null {
+  if (typeof raw !== 'object' || raw === null) return null;
+  const args = raw as Record<string, unknown>;
+
+  const part = typeof args.part === 'string' ? args.part.trim() : '';
+  const category = isWasteCategory(args.category) ? args.category : null;
+  const takeToStation = args.takeToStation === true;
+  if (!part || (!category && !takeToStation)) return null;
+
+  const notes = Array.isArray(args.preparation)
+    ? args.preparation.filter((step): step is string => typeof step === 'string' && step.trim().length > 0)
+    : [];
+  return { part, category, takeToStation, notes };
+}
+
+/** Validates the model's arguments. Invalid parts are dropped; null when no part is left. */
+export function parsePackagingVerdict(args: Record<string, unknown> | undefined, id: string): PackagingVerdict | null {
+  if (!args) return null;
+
+  const barcode = typeof args.barcode === 'string' ? args.barcode.replace(/\D/g, '') : '';
+  const productName = typeof args.productName === 'string' ? args.productName.trim() : '';
+  const components = (Array.isArray(args.components) ? args.components : [])
+    .map(parseComponent)
+    .filter((component): component is PackagingComponent => component !== null);
+  if (!productName || components.length === 0) return null;
+
+  const rawConfidence = typeof args.confidence === 'number' ? args.confidence : 0;
+  return {
+    id,
+    barcode,
+    productName,
+    components,
+    source: 'model',
+    confidence: Math.max(0, Math.min(1, rawConfidence)),
+    timestamp: Date.now(),
+  };
+}
+
+export const reportPackagingTool: ToolDefinition = {
+  declaration: reportPackagingDeclaration,
+  execute: (args, context) => {
+    const verdict = parsePackagingVerdict(args, context.callId);
+    if (!verdict) {
+      return { error: `Ógildar umbúðir. Hver hluti þarf heiti og flokk (${WASTE_CATEGORIES.join(', ')}) eða takeToStation.` };
+    }
+    context.onPackaging(verdict);
+    return { output: `${verdict.components.length} hlutar umbúða birtir notanda.` };
+  },
+};
@@ -0,0 +1,70 @@
+import { FunctionDeclaration, Type } from '@google/genai';
+import { BoundingBox, DetectedItem, WASTE_CATEGORIES } from '../types';
+import { classifyItemDeclaration, parseSortingVerdict } from './classifyItem';
+import { ToolDefinition } from './types';
+
+// Gemini's native detection format: [ymin, xmin, ymax, xmax] scaled to 0-1000
+const BOX_SCALE = 1000;
+
+const verdictProperties = classifyItemDeclaration.parameters?.properties ?? {};
+
+export const reportPhotoItemsDeclaration: FunctionDeclaration = {
+  name: 'report_photo_items',
+  description: 'Skráir alla hluti sem sjást á myndinni sem notandinn sendi, hvern með ramma, svo þeir birtist ofan á myndinni. Kallaðu á þetta fall einu sinni fyrir hverja mynd í stað classify_item.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      items: {
+        type: Type.ARRAY,
+        description: 'Einn liður fyrir hvern sérstakan hlut á myndinni.',
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            ...verdictProperties,
+            box_2d: {
+              type: Type.ARRAY,
+              items: { type: Type.NUMBER },
+              description: 'Rammi utan um hlutinn sem [ymin, xmin, ymax, xmax], kvarðað frá 0 til 1000.',
+            },
+          },
+          required: ['itemName', 'confidence', 'box_2d'],
+        },
+      },
+    },
+    required: ['items'],
+  },
+};
+
+/** Converts a 0-1000 `box_2d` into fractions of the image. Null for anything malformed or empty. */
+export function parseBoundingBox(value: unknown): BoundingBox | null {
+  if (!Array.isArray(value) || value.length !== 4 || !value.every(n => typeof n === 'number' && Number.isFinite(n))) {
+    return null;
+  }
+  const [top, left, bottom, right] = (value as number[]).map(n => Math.max(0, Math.min(BOX_SCALE, n)) / BOX_SCALE);
+  if (bottom <= top || right <= left) return null;
+  return { top, left, bottom, right };
+}
+
+/** Valid items from the model's arguments; invalid ones are dropped rather than failing the whole photo. */
+export function parseDetectedItems(args: Record<string, unknown> | undefined, callId: string): DetectedItem[] {
+  const rawItems = Array.isArray(args?.items) ? args.items : [];
+  return rawItems.flatMap((raw, index): DetectedItem[] => {
+    if (typeof raw !== 'object' || raw === null) return [];
+    const itemArgs = raw as Record<string, unknown>;
+    const verdict = parseSortingVerdict(itemArgs, `${callId}-${index}`);
+    const box = parseBoundingBox(itemArgs.box_2d);
+    return verdict && box ? [{ ...verdict, box }] : [];
+  });
+}
+
+export const reportPhotoItemsTool: ToolDefinition = {
+  declaration: reportPhotoItemsDeclaration,
+  execute: (args, context) => {
+    const items = parseDetectedItems(args, context.callId);
+    if (items.length === 0) {
+      return { error: `Engir gildir hlutir. Hver hlutur þarf heiti, ramma og flokk (${WASTE_CATEGORIES.join(', ')}) eða takeToStation.` };
+    }
+    context.onPhotoItems(items);
+    return { output: `${items.length} hlutir birtir á myndinni.` };
+  },
+};
@@ -0,0 +1,29 @@
+import { FunctionDeclaration, Type } from '@google/genai';
+import { ToolDefinition } from './types';
+
+export const reportUncertainDeclaration: FunctionDeclaration = {
+  name: 'report_uncertain',
+  description: 'Skráir að þú gast ekki flokkað hlut án nánari upplýsinga, svo starfsfólk geti bætt flokkunarskrána. Kallaðu á þetta fall í hvert skipti sem þú biður notandann um nánari upplýsingar um hlut.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      itemName: {
+        type: Type.STRING,
+        description: 'Heiti hlutarins sem spurt var um, t.d. "Kaffihylki". Aldrei nöfn eða aðrar persónuupplýsingar.',
+      },
+    },
+    required: ['itemName'],
+  },
+};
+
+export const reportUncertainTool: ToolDefinition = {
+  declaration: reportUncertainDeclaration,
+  execute: (args, context) => {
+    const itemName = typeof args?.itemName === 'string' ? args.itemName.trim() : '';
+    if (!itemName) {
+      return { error: 'Vantar heiti hlutarins.' };
+    }
+    context.onUncertain(itemName);
+    return { output: 'Skráð. Biddu notandann um nánari upplýsingar.' };
+  },
+};
@@ -0,0 +1,21 @@
+import { FunctionDeclaration } from '@google/genai';
+import { DetectedItem, GeoPoint, PackagingVerdict, SortingVerdict, StationMatch } from '../types';
+
+export type ToolResult = Record<string, unknown>;
+
+// Callbacks and per-call data a tool may use to reach the UI
+export interface ToolContext {
+  callId: string;
+  onVerdict: (verdict: SortingVerdict) => void;
+  onStations: (matches: StationMatch[]) => void;
+  onPhotoItems: (items: DetectedItem[]) => void; // Everything found in the last photo
+  onPackaging: (verdict: PackagingVerdict) => void; // A scanned product the table did not know
+  onUncertain: (itemName: string) => void; // The model asked for details instead of answering
+  getLocation?: () => Promise<GeoPoint | null>; // Only set when the user allowed location use
+  now?: () => Date; // Clock override for tests
+}
+
+export interface ToolDefinition {
+  declaration: FunctionDeclaration;
+  execute: (args: Record<string, unknown> | undefined, context: ToolContext) => ToolResult | Promise<ToolResult>;
+}
@@ -2,10 +2,279 @@ export enum ConnectionState {
   DISCONNECTED = 'DISCONNECTED',
   CONNECTING = 'CONNECTING',
   CONNECTED = 'CONNECTED',
+  RECONNECTING = 'RECONNECTING',
   ERROR = 'ERROR',
+  OFFLINE = 'OFFLINE', // No network; answers come from local data and photos are queued
 }
 
+// What the conversation is doing right now, as shown by the visualizer
+export type ConversationActivity = 'idle' | 'listening' | 'thinking' | 'speaking';
+
 export interface AudioVisualizerProps {
-  isPlaying: boolean;
-  volume: number;
+  activity: ConversationActivity;
+  inputAnalyser: AnalyserNode | null; // Microphone
+  outputAnalyser: AnalyserNode | null; // Model voice
+}
+
+// The fixed set of bins used by Litla Gámaleigan
+export const WASTE_CATEGORIES = ['Plast', 'Pappi', 'Málmur', 'Gler', 'Lífrænt', 'Almennt sorp'] as const;
+
+export type WasteCategory = typeof WASTE_CATEGORIES[number];
+
+export interface SortingVerdict {
+  id: string;
+  itemName: string;
+  category: WasteCategory | null; // null when the item does not belong in any home bin
+  preparation: string[];
+  takeToStation: boolean;
+  confidence: number; // 0-1
+  timestamp: number;
+}
+
+// Fractions of the image size, measured from the top-left corner
+export interface BoundingBox {
+  top: number;
+  left: number;
+  bottom: number;
+  right: number;
+}
+
+// One of several items found in a photo
+export interface DetectedItem extends SortingVerdict {
+  box: BoundingBox;
+}
+
+export interface PhotoAnalysis {
+  id: string;
+  imageDataUrl: string; // The photo the boxes refer to
+  items: DetectedItem[];
+  timestamp: number;
+}
+
+// One separable part of a product's packaging, e.g. the cap of a bottle
+export interface PackagingComponent {
+  part: string;
+  category: WasteCategory | null; // null when the part goes to a recycling station
+  takeToStation: boolean;
+  notes: string[];
+}
+
+export interface ProductPackaging {
+  gtin: string; // EAN-13; UPC-A codes are stored with a leading zero
+  name: string;
+  components: PackagingComponent[];
+}
+
+// A scanned product split into parts, from the local table or worked out by the model
+export interface PackagingVerdict {
+  id: string;
+  barcode: string;
+  productName: string;
+  components: PackagingComponent[];
+  source: 'table' | 'model';
+  confidence: number; // 0-1; always 1 for table entries
+  timestamp: number;
+}
+
+// Material types recycling stations (gámastöðvar) accept beyond the home bins
+export const STATION_MATERIALS = [
+  'Rafhlöður',
+  'Raftæki',
+  'Ljósaperur',
+  'Spilliefni',
+  'Textíll',
+  'Húsgögn',
+  'Timbur',
+  'Garðaúrgangur',
+  'Steinefni',
+  'Málmar',
+  'Blekhylki',
+  'Pappi',
+  'Plast',
+  'Gler',
+] as const;
+
+export type StationMaterial = typeof STATION_MATERIALS[number];
+
+export interface CatalogueItem {
+  id: string;
+  // First name in each list is the canonical one, the rest are synonyms
+  names: {
+    is: string[];
+    en: string[];
+  };
+  category: WasteCategory | null;
+  notes: string[];
+  takeToStation: boolean;
+  stationMaterial?: StationMaterial; // Which container to use at the station
+}
+
+// How microphone audio is gated before it is sent to the model
+export type InputMode = 'vad' | 'push-to-talk';
+
+// Spoken conversation, or typed chat with streamed text answers and no microphone
+export type ConversationMode = 'voice' | 'text';
+
+export type LogMessage = {
+  type: 'user' | 'model' | 'system';
+  text: string;
+  timestamp: number;
+  pending?: boolean; // Transcript still being streamed in
+  imageUrl?: string; // Thumbnail of an image the user sent
+};
+
+export interface SentImage {
+  timestamp: number;
+  mimeType: string;
+  dataUrl: string;
+}
+
+// Everything about a conversation except the growing log and verdict lists
+export interface ConversationMeta {
+  id: string;
+  startedAt: number;
+  endedAt?: number;
+  model: string;
+  images: SentImage[];
+  usage?: SessionUsage; // Set when the session ends
+}
+
+// A photo question taken without a connection, sent when a Live session next opens
+export interface QueuedPhoto {
+  id: string;
+  createdAt: number;
+  mimeType: string;
+  data: string; // base64 without the data URL prefix
+  dataUrl: string;
+  thumbnailDataUrl: string;
+  prompt: string; // Sent with the photo, e.g. the multi-item or barcode request
+}
+
+export interface ConversationRecord extends ConversationMeta {
+  logs: LogMessage[];
+  verdicts: SortingVerdict[]; // Includes items found in photos
+  packaging?: PackagingVerdict[]; // Missing in records saved before barcode scanning
+}
+
+export type ReplyLanguage = 'is' | 'en' | 'pl';
+
+// Languages the interface itself is translated into
+export type UiLanguage = 'is' | 'en' | 'pl';
+
+export type SpeakingStyle = 'friendly' | 'concise' | 'detailed';
+
+export interface AppSettings {
+  voiceName: string;
+  replyLanguage: ReplyLanguage;
+  speakingStyle: SpeakingStyle;
+  model: string;
+  cameraFrameRate: number; // Frames per second streamed in live camera mode
+  useLocation: boolean; // Sort recycling stations by distance using browser geolocation
+  idleTimeoutMinutes: number; // Disconnect after this long without user input; 0 = never
+  maxSessionMinutes: number; // Hard cap on one session
+  micDeviceId: string; // '' = browser default
+  echoCancellation: boolean;
+  noiseSuppression: boolean;
+  autoGainControl: boolean;
+  uiLanguage: UiLanguage | 'auto'; // 'auto' follows the browser language
+  multiItemPhotos: boolean; // Ask for every item in a photo, with bounding boxes
+}
+
+// What one session consumed, shown when it ends
+export interface SessionUsage {
+  connectedMs: number;
+  audioSentSeconds: number;
+  audioReceivedSeconds: number;
+  imagesSent: number;
+  cameraFrames: number;
+  promptTokens: number;
+  responseTokens: number;
+  totalTokens: number;
+}
+
+export type SessionLimitReason = 'idle' | 'max-length';
+
+// Recurring home-bin collection for one area
+export interface PickupRule {
+  area: string;
+  category: WasteCategory;
+  intervalWeeks: number;
+  anchorDate: string; // YYYY-MM-DD of any regular pickup; sets weekday and cycle phase
+}
+
+export interface OpeningSpan {
+  open: string; // HH:MM
+  close: string; // HH:MM
+}
+
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+export interface RecyclingStation {
+  id: string;
+  name: string;
+  address: string;
+  latitude: number;
+  longitude: number;
+  materials: StationMaterial[];
+  // Indexed by weekday, 0 = Sunday; null = closed
+  hours: (OpeningSpan | null)[];
+  // Overrides keyed by holiday name; holidays not listed are closed
+  holidayHours: Record<string, OpeningSpan | null>;
+}
+
+export interface StationMatch {
+  station: RecyclingStation;
+  isOpen: boolean;
+  todayHours: OpeningSpan | null;
+  holidayName?: string;
+  distanceKm?: number;
+}
+
+// Settings the token server needs to build the locked assistant config
+export type LiveTokenRequest = Pick<AppSettings, 'model' | 'voiceName' | 'replyLanguage' | 'speakingStyle'> & {
+  mode: ConversationMode;
+};
+
+export interface LiveTokenResponse {
+  token: string; // Ephemeral auth token, used in place of an API key
+  model: string;
+  expiresAt: string; // ISO time after which no new session can be opened with the token
+}
+
+// Category key in analytics; 'station' for items that go to a recycling station
+export type AnalyticsCategory = WasteCategory | 'station';
+
+// Why an answer counts as uncertain: a low confidence score, or the model asked for details
+export type UncertainReason = 'low-confidence' | 'asked-for-details';
+
+export interface ItemStats {
+  name: string; // As first classified, e.g. "Pítsukassi"
+  count: number;
+  categories: Partial<Record<AnalyticsCategory, number>>;
+  lowConfidence: number;
+  lastSeen: string; // YYYY-MM-DD
+}
+
+export interface UncertainAnswer {
+  date: string; // YYYY-MM-DD
+  itemName: string;
+  reason: UncertainReason;
+  confidence: number | null; // null when the model asked for details instead of answering
+  language: ReplyLanguage;
+}
+
+// Anonymised counts kept on this device for the operator dashboard: no transcripts,
+// images, conversation ids or times of day
+export interface AnalyticsData {
+  since: string; // YYYY-MM-DD the counts started
+  sessions: number;
+  items: Record<string, ItemStats>; // Keyed by normalised item name
+  categories: Partial<Record<AnalyticsCategory, number>>;
+  replyLanguages: Partial<Record<ReplyLanguage, number>>;
+  uiLanguages: Partial<Record<UiLanguage, number>>;
+  daily: Record<string, number>; // Classified items per YYYY-MM-DD
+  uncertain: UncertainAnswer[]; // Newest first
 }
@@ -0,0 +1,145 @@
+import { AnalyticsCategory, AnalyticsData, ItemStats, ReplyLanguage, SortingVerdict, UiLanguage, UncertainAnswer } from '../types';
+import { normalizeName } from './catalogue';
+import { addDays } from './holidays';
+
+// Verdicts below this confidence are listed for the team to check
+export const LOW_CONFIDENCE = 0.6;
+
+// Storage bounds; the rarest items and oldest days go first
+const MAX_ITEMS = 500;
+const MAX_UNCERTAIN = 200;
+const DAILY_DAYS = 90;
+
+export function emptyAnalytics(today: string): AnalyticsData {
+  return { since: today, sessions: 0, items: {}, categories: {}, replyLanguages: {}, uiLanguages: {}, daily: {}, uncertain: [] };
+}
+
+const increment = <K extends string>(counts: Partial<Record<K, number>>, key: K): Partial<Record<K, number>> =>
+  ({ ...counts, [key]: (counts[key] ?? 0) + 1 });
+
+const isCountRecord = (value: unknown): value is Record<string, number> =>
+  typeof value === 'object' && value !== null && Object.values(value).every(n => typeof n === 'number');
+
+/** Stored data with anything malformed reset, so a bad write never breaks the dashboard. */
+export function parseAnalytics(stored: Partial<AnalyticsData>, today: string): AnalyticsData {
+  const empty = emptyAnalytics(today);
+  return {
+    since: typeof stored.since === 'string' ? stored.since : empty.since,
+    sessions: typeof stored.sessions === 'number' ? stored.sessions : 0,
+    items: typeof stored.items === 'object' && stored.items !== null ? stored.items : {},
+    categories: isCountRecord(stored.categories) ? stored.categories : {},
+    replyLanguages: isCountRecord(stored.replyLanguages) ? stored.replyLanguages : {},
+    uiLanguages: isCountRecord(stored.uiLanguages) ? stored.uiLanguages : {},
+    daily: isCountRecord(stored.daily) ? stored.daily : {},
+    uncertain: Array.isArray(stored.uncertain) ? stored.uncertain : [],
+  };
+}
+
+export function recordSession(data: AnalyticsData, languages: { reply: ReplyLanguage; ui: UiLanguage }): AnalyticsData {
+  return {
+    ...data,
+    sessions: data.sessions + 1,
+    replyLanguages: increment(data.replyLanguages, languages.reply),
+    uiLanguages: increment(data.uiLanguages, languages.ui),
+  };
+}
+
+const addUncertain = (data: AnalyticsData, answer: UncertainAnswer): UncertainAnswer[] =>
+  [answer, ...data.uncertain].slice(0, MAX_UNCERTAIN);
+
+function pruneItems(items: Record<string, ItemStats>): Record<string, ItemStats> {
+  const entries = Object.entries(items);
+  if (entries.length <= MAX_ITEMS) return items;
+  return Object.fromEntries(entries
+    .sort(([, a], [, b]) => b.count - a.count || b.lastSeen.localeCompare(a.lastSeen))
+    .slice(0, MAX_ITEMS));
+}
+
+function pruneDaily(daily: Record<string, number>, today: string): Record<string, number> {
+  const oldest = addDays(today, -DAILY_DAYS);
+  return Object.fromEntries(Object.entries(daily).filter(([date]) => date > oldest));
+}
+
+/** Counts one classified item. Only its name, category and confidence are kept. */
+export function recordVerdict(data: AnalyticsData, verdict: SortingVerdict, language: ReplyLanguage, today: string): AnalyticsData {
+  const key = normalizeName(verdict.itemName);
+  if (!key) return data;
+
+  const category: AnalyticsCategory = verdict.category ?? 'station';
+  const isLow = verdict.confidence < LOW_CONFIDENCE;
+  const previous = data.items[key];
+  const item: ItemStats = {
+    name: previous?.name ?? verdict.itemName.trim(),
+    count: (previous?.count ?? 0) + 1,
+    categories: increment(previous?.categories ?? {}, category),
+    lowConfidence: (previous?.lowConfidence ?? 0) + (isLow ? 1 : 0),
+    lastSeen: today,
+  };
+
+  return {
+    ...data,
+    items: pruneItems({ ...data.items, [key]: item }),
+    categories: increment(data.categories, category),
+    daily: pruneDaily(increment(data.daily, today) as Record<string, number>, today),
+    uncertain: isLow
+      ? addUncertain(data, { date: today, itemName: item.name, reason: 'low-confidence', confidence: verdict.confidence, language })
+      : data.uncertain,
+  };
+}
+
+/** Notes a question the model could not answer without asking for more details. */
+export function recordAskedForDetails(data: AnalyticsData, itemName: string, language: ReplyLanguage, today: string): AnalyticsData {
+  const name = itemName.trim();
+  if (!name) return data;
+  return {
+    ...data,
+    uncertain: addUncertain(data, { date: today, itemName: name, reason: 'asked-for-details', confidence: null, language }),
+  };
+}
+
+/** Most asked items first. */
+export function topItems(data: AnalyticsData, limit = 20): ItemStats[] {
+  return Object.values(data.items)
+    .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name))
+    .slice(0, limit);
+}
+
+export function mainCategory(item: ItemStats): AnalyticsCategory | null {
+  const entries = Object.entries(item.categories) as [AnalyticsCategory, number][];
+  return entries.length > 0 ? entries.reduce((best, entry) => (entry[1] > best[1] ? entry : best))[0] : null;
+}
+
+/** Classified items for each of the last `days` days, oldest first, including empty days. */
+export function dailySeries(data: AnalyticsData, days: number, today: string): { date: string; count: number }[] {
+  return Array.from({ length: days }, (_, i) => {
+    const date = addDays(today, i - days + 1);
+    return { date, count: data.daily[date] ?? 0 };
+  });
+}
+
+// RFC 4180 quoting; a leading =, +, - or @ is escaped so spreadsheets do not run it as a formula
+function csvField(value: string | number | null): string {
+  if (value === null) return '';
+  let text = String(value);
+  if (typeof value === 'string' && /^[=+\-@]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(rows: (string | number | null)[][]): string {
+  return rows.map(row => row.map(csvField).join(',')).join('\r\n');
+}
+
+/** One row per item, most asked first. Column names stay in English for spreadsheets. */
+export function itemsToCsv(data: AnalyticsData): string {
+  return toCsv([
+    ['item', 'count', 'main_category', 'low_confidence', 'last_seen'],
+    ...topItems(data, Infinity).map(item => [item.name, item.count, mainCategory(item), item.lowConfidence, item.lastSeen]),
+  ]);
+}
+
+export function uncertainToCsv(data: AnalyticsData): string {
+  return toCsv([
+    ['date', 'item', 'reason', 'confidence', 'language'],
+    ...data.uncertain.map(answer => [answer.date, answer.itemName, answer.reason, answer.confidence, answer.language]),
+  ]);
+}
@@ -1,5 +1,3 @@
-import { Blob } from '@google/genai';
-
 export function decode(base64: string): Uint8Array {
   const binaryString = atob(base64);
   const len = binaryString.length;
@@ -10,22 +8,49 @@ export function decode(base64: string): Uint8Array {
   return bytes;
 }
 
+export const INPUT_SAMPLE_RATE = 16000;
+export const INPUT_MIME_TYPE = `audio/pcm;rate=${INPUT_SAMPLE_RATE}`;
+
 export function encode(bytes: Uint8Array): string {
+  // Convert in slices; one fromCharCode call per byte is slow on low-end phones
+  const CHUNK = 0x8000;
   let binary = '';
-  const len = bytes.byteLength;
-  for (let i = 0; i < len; i++) {
-    binary += String.fromCharCode(bytes[i]);
+  for (let i = 0; i < bytes.byteLength; i += CHUNK) {
+    binary += String.fromCharCode.apply(null, Array.from(bytes.subarray(i, i + CHUNK)));
   }
   return btoa(binary);
 }
 
-export async function decodeAudioData(
+/**
+ * Base64 without `btoa`, which the AudioWorklet scope does not have. It refers to nothing
+ * outside itself so the capture worklet can embed its source.
+ */
+export function encodeBase64(bytes: Uint8Array): string {
+  const alphabet = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+  let out = '';
+  let i = 0;
+  for (; i + 2 < bytes.length; i += 3) {
+    const n = (bytes[i] << 16) | (bytes[i + 1] << 8) | bytes[i + 2];
+    out += alphabet[n >> 18] + alphabet[(n >> 12) & 63] + alphabet[(n >> 6) & 63] + alphabet[n & 63];
+  }
+  if (bytes.length - i === 1) {
+    const n = bytes[i] << 16;
+    out += alphabet[n >> 18] + alphabet[(n >> 12) & 63] + '==';
+  } else if (bytes.length - i === 2) {
+    const n = (bytes[i] << 16) | (bytes[i + 1] << 8);
+    out += alphabet[n >> 18] + alphabet[(n >> 12) & 63] + alphabet[(n >> 6) & 63] + '=';
+  }
+  return out;
+}
+
+/** Synchronous so the playback queue can schedule chunks in arrival order. */
+export function pcmToAudioBuffer(
   data: Uint8Array,
-  ctx: AudioContext,
+  ctx: BaseAudioContext,
   sampleRate: number,
   numChannels: number,
-): Promise<AudioBuffer> {
-  const dataInt16 = new Int16Array(data.buffer);
+): AudioBuffer {
+  const dataInt16 = new Int16Array(data.buffer, data.byteOffset, Math.floor(data.byteLength / 2));
   const frameCount = dataInt16.length / numChannels;
   const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
 
@@ -38,16 +63,8 @@ export async function decodeAudioData(
   return buffer;
 }
 
-export function createBlob(data: Float32Array): Blob {
-  const l = data.length;
-  const int16 = new Int16Array(l);
-  for (let i = 0; i < l; i++) {
-    // Clamp values to [-1, 1] before converting
-    const clamped = Math.max(-1, Math.min(1, data[i]));
-    int16[i] = clamped * 32768;
-  }
-  return {
-    data: encode(new Uint8Array(int16.buffer)),
-    mimeType: 'audio/pcm;rate=16000',
-  };
+/** Reads the rate from a mime type such as `audio/pcm;rate=24000`. */
+export function parsePcmSampleRate(mimeType: string | undefined, fallback: number): number {
+  const rate = Number(mimeType?.match(/rate=(\d+)/)?.[1]);
+  return rate > 0 ? rate : fallback;
 }
\ No newline at end of file
@@ -0,0 +1,185 @@
+import { fitWithin, ImagePipelineError } from './imagePipeline';
+
+// Local EAN-13 / UPC-A decoding. A UPC-A code is an EAN-13 starting with 0, so both come
+// out as 13 digits. Rows (and columns, for barcodes held sideways) are read as bar widths.
+
+// Left-hand "L" patterns; "R" patterns are their complement and "G" their mirror image
+const L_PATTERNS = ['0001101', '0011001', '0010011', '0111101', '0100011', '0110001', '0101111', '0111011', '0110111', '0001011'];
+
+// Which of the six left-hand digits use G patterns encodes the first digit
+const FIRST_DIGIT_PARITY = ['LLLLLL', 'LLGLGG', 'LLGGLG', 'LLGGGL', 'LGLLGG', 'LGGLLG', 'LGGGLL', 'LGLGLG', 'LGLGGL', 'LGGLGL'];
+
+const toRunWidths = (bits: string): number[] => bits.match(/0+|1+/g)!.map(run => run.length);
+
+// Widths of the four runs in each digit; R digits have the same widths as L digits
+const L_WIDTHS = L_PATTERNS.map(toRunWidths);
+const G_WIDTHS = L_WIDTHS.map(widths => [...widths].reverse());
+
+const MODULES = 95; // Guards and digits of an EAN-13 in module widths
+const RUNS = 59; // Bars and spaces from the first guard bar to the last
+const MAX_DIGIT_ERROR = 1.2; // Summed deviation, in modules, a digit may have from its pattern
+const MIN_CONTRAST = 40; // Darkest to lightest within the window before anything counts as a bar
+
+export interface LuminanceImage {
+  data: Uint8ClampedArray; // RGBA, as in ImageData
+  width: number;
+  height: number;
+}
+
+/** True when the code is 8, 12 or 13 digits and its check digit adds up. */
+export function isValidGtin(code: string): boolean {
+  if (!/^(\d{8}|\d{12}|\d{13})$/.test(code)) return false;
+  const digits = [...code].map(Number);
+  const check = digits.pop()!;
+  // Weights alternate 3, 1, ... starting from the digit next to the check digit
+  const sum = digits.reverse().reduce((total, digit, i) => total + digit * (i % 2 === 0 ? 3 : 1), 0);
+  return (10 - (sum % 10)) % 10 === check;
+}
+
+/** EAN-13 form of a scanned or typed code: UPC-A gets its leading zero back. */
+export function toGtin13(code: string): string {
+  const digits = code.replace(/\D/g, '');
+  return digits.length === 12 ? `0${digits}` : digits;
+}
+
+// Best matching digit for four run widths, or null when nothing is close enough
+function matchDigit(runs: number[], patterns: number[][]): { digit: number; error: number } | null {
+  const total = runs.reduce((a, b) => a + b, 0);
+  const scaled = runs.map(width => (width * 7) / total);
+
+  let best: { digit: number; error: number } | null = null;
+  patterns.forEach((pattern, digit) => {
+    const error = pattern.reduce((sum, width, i) => sum + Math.abs(width - scaled[i]), 0);
+    if (!best || error < best.error) best = { digit, error };
+  });
+  return best && best.error <= MAX_DIGIT_ERROR ? best : null;
+}
+
+// Decodes 59 runs starting at a bar that may be the start guard
+function decodeRuns(runs: number[]): string | null {
+  const module = runs.reduce((a, b) => a + b, 0) / MODULES;
+  const isGuard = (widths: number[]) => widths.every(width => width > module * 0.5 && width < module * 1.5);
+  if (!isGuard(runs.slice(0, 3)) || !isGuard(runs.slice(27, 32)) || !isGuard(runs.slice(56, 59))) return null;
+
+  let parity = '';
+  const digits: number[] = [];
+  for (let i = 0; i < 6; i++) {
+    const widths = runs.slice(3 + i * 4, 7 + i * 4);
+    const l = matchDigit(widths, L_WIDTHS);
+    const g = matchDigit(widths, G_WIDTHS);
+    const match = l && (!g || l.error <= g.error) ? l : g;
+    if (!match) return null;
+    parity += match === l ? 'L' : 'G';
+    digits.push(match.digit);
+  }
+  for (let i = 0; i < 6; i++) {
+    const match = matchDigit(runs.slice(32 + i * 4, 36 + i * 4), L_WIDTHS);
+    if (!match) return null;
+    digits.push(match.digit);
+  }
+
+  const first = FIRST_DIGIT_PARITY.indexOf(parity);
+  if (first === -1) return null;
+  const code = `${first}${digits.join('')}`;
+  return isValidGtin(code) ? code : null;
+}
+
+/**
+ * Reads an EAN-13 from one line of luminance values (0 black - 255 white). Each pixel is
+ * judged against the midpoint of the darkest and lightest pixels around it, so uneven
+ * light and blurred edges do not shift the bar widths.
+ */
+export function decodeScanline(line: ArrayLike<number>): string | null {
+  const length = line.length;
+  if (length < MODULES) return null;
+  const half = Math.max(8, Math.round(length / 32));
+
+  // Run-length encode, remembering whether the first run is dark
+  const runs: number[] = [];
+  let firstDark = false;
+  let previous: boolean | null = null;
+  for (let i = 0; i < length; i++) {
+    let min = 255;
+    let max = 0;
+    for (let j = Math.max(0, i - half); j < Math.min(length, i + half + 1); j++) {
+      min = Math.min(min, line[j]);
+      max = Math.max(max, line[j]);
+    }
+    // Flat areas (the quiet zone, a plain label) are light, whatever their noise
+    const dark = max - min >= MIN_CONTRAST && line[i] < (min + max) / 2;
+    if (dark === previous) {
+      runs[runs.length - 1]++;
+    } else {
+      if (previous === null) firstDark = dark;
+      runs.push(1);
+      previous = dark;
+    }
+  }
+
+  // Try both reading directions; a barcode may be upside down
+  const lastDark = (runs.length - 1) % 2 === 0 ? firstDark : !firstDark;
+  const directions: [number[], boolean][] = [[runs, firstDark], [[...runs].reverse(), lastDark]];
+  for (const [ordered, startsDark] of directions) {
+    // Candidates start on a bar
+    for (let start = startsDark ? 0 : 1; start + RUNS <= ordered.length; start += 2) {
+      const code = decodeRuns(ordered.slice(start, start + RUNS));
+      if (code) return code;
+    }
+  }
+  return null;
+}
+
+// Middle first, then outwards, since people aim the barcode at the centre
+const SCAN_POSITIONS = [0.5, 0.45, 0.55, 0.4, 0.6, 0.35, 0.65, 0.3, 0.7, 0.25, 0.75, 0.2, 0.8];
+
+/** Scans rows, then columns, of an RGBA image for an EAN-13 or UPC-A barcode. */
+export function decodeBarcode(image: LuminanceImage): string | null {
+  const { data, width, height } = image;
+  const luminance = (x: number, y: number) => {
+    const i = (y * width + x) * 4;
+    return 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+  };
+
+  for (const position of SCAN_POSITIONS) {
+    const y = Math.floor(height * position);
+    const row = Float32Array.from({ length: width }, (_, x) => luminance(x, y));
+    const code = decodeScanline(row);
+    if (code) return code;
+  }
+  for (const position of SCAN_POSITIONS) {
+    const x = Math.floor(width * position);
+    const column = Float32Array.from({ length: height }, (_, y) => luminance(x, y));
+    const code = decodeScanline(column);
+    if (code) return code;
+  }
+  return null;
+}
+
+// Phone photos are downscaled only this far so small barcodes keep about two pixels per bar
+const SCAN_MAX_EDGE = 2048;
+
+async function decodePhoto(file: Blob): Promise<ImageBitmap> {
+  try {
+    return await createImageBitmap(file, { imageOrientation: 'from-image' });
+  } catch (error) {
+    console.error('Barcode photo decode failed', error);
+    throw new ImagePipelineError('unreadable');
+  }
+}
+
+/** Looks for a barcode in a photo or a grabbed camera frame. Resolves to null when none is found. */
+export async function scanBarcode(file: Blob): Promise<string | null> {
+  const image = await decodePhoto(file);
+  try {
+    const size = fitWithin(image.width, image.height, SCAN_MAX_EDGE);
+    const canvas = document.createElement('canvas');
+    canvas.width = size.width;
+    canvas.height = size.height;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) return null;
+    ctx.drawImage(image, 0, 0, size.width, size.height);
+    return decodeBarcode(ctx.getImageData(0, 0, size.width, size.height));
+  } finally {
+    image.close();
+  }
+}
@@ -0,0 +1,48 @@
+import { CatalogueItem } from '../types';
+import { WASTE_CATALOGUE } from '../data/wasteCatalogue';
+
+// Lowercase and strip accents so "Glerkrúkka" and "glerkrukka" compare equal
+export function normalizeName(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^\p{L}\p{N}\s-]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function scoreName(query: string, name: string): number {
+  const candidate = normalizeName(name);
+  if (!candidate) return 0;
+  if (candidate === query) return 100;
+  if (candidate.startsWith(query) || query.startsWith(candidate)) return 60;
+  if (candidate.includes(query) || query.includes(candidate)) return 40;
+
+  const queryWords = query.split(' ');
+  const shared = candidate.split(' ').filter(word => queryWords.includes(word)).length;
+  return shared > 0 ? 20 * shared : 0;
+}
+
+/**
+ * Finds catalogue entries matching a free-text item name in Icelandic or English,
+ * best match first.
+ */
+export function findCatalogueItems(
+  query: string,
+  catalogue: CatalogueItem[] = WASTE_CATALOGUE,
+  limit = 3,
+): CatalogueItem[] {
+  const normalized = normalizeName(query);
+  if (!normalized) return [];
+
+  return catalogue
+    .map(item => ({
+      item,
+      score: Math.max(...[...item.names.is, ...item.names.en].map(name => scoreName(normalized, name))),
+    }))
+    .filter(match => match.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(match => match.item);
+}
@@ -0,0 +1,31 @@
+import { Content } from '@google/genai';
+import { LogMessage } from '../types';
+
+// Enough to carry the thread on without replaying a whole long session
+const MAX_HISTORY_TURNS = 30;
+
+/**
+ * Turns the thread so far into Live API history, so a session opened after switching
+ * between voice and text carries on where the last one stopped. System lines are left
+ * out and consecutive messages from one speaker become one turn.
+ */
+export function buildHistoryTurns(logs: LogMessage[], maxTurns = MAX_HISTORY_TURNS): Content[] {
+  const turns: Content[] = [];
+
+  for (const log of logs) {
+    const text = log.text.trim();
+    if (log.type === 'system' || !text) continue;
+    const role = log.type === 'user' ? 'user' : 'model';
+
+    const last = turns[turns.length - 1];
+    if (last?.role === role) {
+      last.parts = [{ text: `${last.parts?.[0]?.text ?? ''}\n${text}` }];
+    } else {
+      turns.push({ role, parts: [{ text }] });
+    }
+  }
+
+  const recent = turns.slice(-maxTurns);
+  // Start on a user turn, as a real conversation would
+  return recent[0]?.role === 'model' ? recent.slice(1) : recent;
+}
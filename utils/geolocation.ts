@@ -0,0 +1,17 @@
+import { GeoPoint } from '../types';
+
+/** Current position, or null if unavailable, denied or too slow. */
+export function getCurrentLocation(timeoutMs = 5000): Promise<GeoPoint | null> {
+  if (!('geolocation' in navigator)) return Promise.resolve(null);
+
+  return new Promise(resolve => {
+    navigator.geolocation.getCurrentPosition(
+      position => resolve({ latitude: position.coords.latitude, longitude: position.coords.longitude }),
+      error => {
+        console.warn('Geolocation unavailable', error);
+        resolve(null);
+      },
+      { timeout: timeoutMs, maximumAge: 5 * 60 * 1000 },
+    );
+  });
+}
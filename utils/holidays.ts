@@ -0,0 +1,101 @@
+// Iceland is on UTC all year, so dates are handled as UTC calendar days ('YYYY-MM-DD')
+
+export interface Holiday {
+  date: string; // YYYY-MM-DD
+  name: string;
+  halfDay: boolean; // Public holiday from noon only (aðfangadagur, gamlársdagur)
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function toIsoDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+export function fromIsoDate(iso: string): Date {
+  return new Date(`${iso}T00:00:00Z`);
+}
+
+export function addDays(iso: string, days: number): string {
+  return toIsoDate(new Date(fromIsoDate(iso).getTime() + days * DAY_MS));
+}
+
+export function daysBetween(fromIso: string, toIso: string): number {
+  return Math.round((fromIsoDate(toIso).getTime() - fromIsoDate(fromIso).getTime()) / DAY_MS);
+}
+
+export function weekdayOf(iso: string): number {
+  return fromIsoDate(iso).getUTCDay();
+}
+
+/** Easter Sunday for a Gregorian year (anonymous Gregorian / Meeus algorithm). */
+export function easterSunday(year: number): string {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+// First given weekday on or after a date
+function firstWeekdayOnOrAfter(iso: string, weekday: number): string {
+  return addDays(iso, (weekday - weekdayOf(iso) + 7) % 7);
+}
+
+const fixed = (year: number, month: number, day: number) =>
+  `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+
+/** Icelandic public holidays (almennir frídagar) for a year, in date order. */
+export function getIcelandicHolidays(year: number): Holiday[] {
+  const easter = easterSunday(year);
+  const holiday = (date: string, name: string, halfDay = false): Holiday => ({ date, name, halfDay });
+
+  return [
+    holiday(fixed(year, 1, 1), 'Nýársdagur'),
+    holiday(addDays(easter, -3), 'Skírdagur'),
+    holiday(addDays(easter, -2), 'Föstudagurinn langi'),
+    holiday(easter, 'Páskadagur'),
+    holiday(addDays(easter, 1), 'Annar í páskum'),
+    // First Thursday after 18 April
+    holiday(firstWeekdayOnOrAfter(fixed(year, 4, 19), 4), 'Sumardagurinn fyrsti'),
+    holiday(fixed(year, 5, 1), 'Verkalýðsdagurinn'),
+    holiday(addDays(easter, 39), 'Uppstigningardagur'),
+    holiday(addDays(easter, 49), 'Hvítasunnudagur'),
+    holiday(addDays(easter, 50), 'Annar í hvítasunnu'),
+    holiday(fixed(year, 6, 17), 'Þjóðhátíðardagurinn'),
+    // First Monday in August
+    holiday(firstWeekdayOnOrAfter(fixed(year, 8, 1), 1), 'Frídagur verslunarmanna'),
+    holiday(fixed(year, 12, 24), 'Aðfangadagur', true),
+    holiday(fixed(year, 12, 25), 'Jóladagur'),
+    holiday(fixed(year, 12, 26), 'Annar í jólum'),
+    holiday(fixed(year, 12, 31), 'Gamlársdagur', true),
+  ].sort((a, b) => a.date.localeCompare(b.date));
+}
+
+export function getHoliday(iso: string): Holiday | undefined {
+  const year = Number(iso.slice(0, 4));
+  return getIcelandicHolidays(year).find(h => h.date === iso);
+}
+
+/** Holidays from `fromIso` (inclusive) within the next `days` days. */
+export function getUpcomingHolidays(fromIso: string, days: number): Holiday[] {
+  const untilIso = addDays(fromIso, days);
+  const startYear = Number(fromIso.slice(0, 4));
+  const endYear = Number(untilIso.slice(0, 4));
+
+  const holidays: Holiday[] = [];
+  for (let year = startYear; year <= endYear; year++) {
+    holidays.push(...getIcelandicHolidays(year));
+  }
+  return holidays.filter(h => h.date >= fromIso && h.date <= untilIso);
+}
@@ -0,0 +1,122 @@
+export type ImageFormat = 'image/jpeg' | 'image/webp';
+
+export interface ImagePipelineOptions {
+  maxEdge: number; // Longest side in pixels after resizing
+  maxBytes: number; // Size budget for the encoded image
+  format: ImageFormat;
+  thumbnailEdge: number;
+}
+
+export const DEFAULT_IMAGE_OPTIONS: ImagePipelineOptions = {
+  maxEdge: 1024,
+  maxBytes: 300 * 1024,
+  format: 'image/jpeg',
+  thumbnailEdge: 160,
+};
+
+export interface PreparedImage {
+  mimeType: ImageFormat;
+  data: string; // base64 without the data URL prefix
+  dataUrl: string;
+  thumbnailDataUrl: string;
+  width: number;
+  height: number;
+  bytes: number;
+  originalBytes: number;
+}
+
+export type ImagePipelineErrorCode = 'unreadable' | 'unsupported';
+
+export class ImagePipelineError extends Error {
+  constructor(readonly code: ImagePipelineErrorCode) {
+    super(`Image could not be prepared: ${code}`);
+  }
+}
+
+const QUALITY_STEPS = [0.85, 0.75, 0.65, 0.5, 0.4];
+const MIN_EDGE = 320;
+
+export function fitWithin(width: number, height: number, maxEdge: number): { width: number; height: number } {
+  const scale = Math.min(1, maxEdge / Math.max(width, height));
+  return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+}
+
+/** Number of bytes a base64 payload decodes to. */
+export function base64ByteLength(base64: string): number {
+  const padding = base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0;
+  return Math.floor((base64.length * 3) / 4) - padding;
+}
+
+async function decodeImage(file: Blob): Promise<ImageBitmap> {
+  try {
+    // 'from-image' rotates according to the EXIF orientation tag
+    return await createImageBitmap(file, { imageOrientation: 'from-image' });
+  } catch (error) {
+    console.error('Image decode failed', error);
+    throw new ImagePipelineError('unreadable');
+  }
+}
+
+function drawScaled(source: CanvasImageSource, width: number, height: number): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new ImagePipelineError('unsupported');
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(source, 0, 0, width, height);
+  return canvas;
+}
+
+// Encoding through a canvas drops all EXIF/GPS metadata from the original file
+function encodeCanvas(canvas: HTMLCanvasElement, format: ImageFormat, quality: number): { mimeType: ImageFormat; dataUrl: string } {
+  const dataUrl = canvas.toDataURL(format, quality);
+  // Browsers without WebP encoding silently fall back to PNG
+  if (!dataUrl.startsWith(`data:${format}`)) {
+    return { mimeType: 'image/jpeg', dataUrl: canvas.toDataURL('image/jpeg', quality) };
+  }
+  return { mimeType: format, dataUrl };
+}
+
+/**
+ * Decodes a photo, applies its EXIF orientation, strips metadata, resizes it and
+ * re-encodes it to fit the size budget before it is sent to the model.
+ */
+export async function prepareImage(file: Blob, options: Partial<ImagePipelineOptions> = {}): Promise<PreparedImage> {
+  const { maxEdge, maxBytes, format, thumbnailEdge } = { ...DEFAULT_IMAGE_OPTIONS, ...options };
+  const bitmap = await decodeImage(file);
+
+  try {
+    let size = fitWithin(bitmap.width, bitmap.height, maxEdge);
+    let encoded: { mimeType: ImageFormat; dataUrl: string } | null = null;
+    let bytes = 0;
+
+    // Lower the quality first, then the resolution, until the image fits the budget
+    while (true) {
+      const canvas = drawScaled(bitmap, size.width, size.height);
+      for (const quality of QUALITY_STEPS) {
+        encoded = encodeCanvas(canvas, format, quality);
+        bytes = base64ByteLength(encoded.dataUrl.split(',')[1]);
+        if (bytes <= maxBytes) break;
+      }
+      if (bytes <= maxBytes || Math.max(size.width, size.height) <= MIN_EDGE) break;
+      size = fitWithin(size.width, size.height, Math.round(Math.max(size.width, size.height) * 0.75));
+    }
+
+    const thumbSize = fitWithin(bitmap.width, bitmap.height, thumbnailEdge);
+    const thumbnailDataUrl = drawScaled(bitmap, thumbSize.width, thumbSize.height).toDataURL('image/jpeg', 0.7);
+
+    return {
+      mimeType: encoded!.mimeType,
+      data: encoded!.dataUrl.split(',')[1],
+      dataUrl: encoded!.dataUrl,
+      thumbnailDataUrl,
+      width: size.width,
+      height: size.height,
+      bytes,
+      originalBytes: file.size,
+    };
+  } finally {
+    bitmap.close();
+  }
+}
@@ -0,0 +1,46 @@
+import { LiveConnectConfig, Modality } from '@google/genai';
+import { LiveTokenRequest } from '../types';
+import { toolDeclarations } from '../tools';
+import { buildSystemInstruction } from './systemPrompt';
+
+/**
+ * The part of the Live config that defines the assistant: voice, instruction and tools.
+ * The token server locks these fields into each ephemeral token so a browser cannot
+ * repurpose the session. Text mode shares instruction and tools but answers in text.
+ */
+export function buildAssistantConfig(
+  settings: Omit<LiveTokenRequest, 'model'>,
+  now: Date = new Date(),
+): LiveConnectConfig {
+  const shared: LiveConnectConfig = {
+    systemInstruction: buildSystemInstruction({
+      now,
+      replyLanguage: settings.replyLanguage,
+      speakingStyle: settings.speakingStyle,
+    }),
+    tools: [{ functionDeclarations: toolDeclarations }],
+  };
+
+  if (settings.mode === 'text') {
+    return { ...shared, responseModalities: [Modality.TEXT] };
+  }
+
+  return {
+    ...shared,
+    responseModalities: [Modality.AUDIO],
+    speechConfig: {
+      voiceConfig: { prebuiltVoiceConfig: { voiceName: settings.voiceName } },
+    },
+    inputAudioTranscription: {},
+    outputAudioTranscription: {},
+  };
+}
+
+/** Per-connection options the browser sets itself on top of the locked config. */
+export function buildConnectionConfig(resumptionHandle: string | undefined): LiveConnectConfig {
+  return {
+    sessionResumption: { handle: resumptionHandle },
+    // Speech is bracketed client-side by the VAD or push-to-talk button
+    realtimeInputConfig: { automaticActivityDetection: { disabled: true } },
+  };
+}
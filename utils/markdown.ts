@@ -0,0 +1,111 @@
+// The small subset of markdown the model uses in chat answers. Text streams in, so
+// anything unfinished (an open ** or ```) simply stays plain text until it closes.
+
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'strong'; children: MarkdownInline[] }
+  | { type: 'em'; children: MarkdownInline[] }
+  | { type: 'code'; text: string }
+  | { type: 'link'; href: string; children: MarkdownInline[] };
+
+export type MarkdownBlock =
+  | { type: 'paragraph'; children: MarkdownInline[] }
+  | { type: 'heading'; level: number; children: MarkdownInline[] }
+  | { type: 'list'; ordered: boolean; items: MarkdownInline[][] }
+  | { type: 'code'; text: string };
+
+const INLINE_PATTERN = /`([^`]+)`|\*\*(.+?)\*\*|\*([^*\s](?:[^*]*[^*\s])?)\*|\[([^\]]+)\]\(([^)\s]+)\)/;
+
+// Only web and mail links; anything else (javascript: and friends) is shown as text
+const SAFE_HREF = /^(https?:\/\/|mailto:)/i;
+
+export function parseInline(text: string): MarkdownInline[] {
+  const nodes: MarkdownInline[] = [];
+  let rest = text;
+
+  while (rest) {
+    const match = INLINE_PATTERN.exec(rest);
+    if (!match) {
+      nodes.push({ type: 'text', text: rest });
+      break;
+    }
+    if (match.index > 0) nodes.push({ type: 'text', text: rest.slice(0, match.index) });
+
+    const [whole, code, strong, em, linkText, href] = match;
+    if (code !== undefined) {
+      nodes.push({ type: 'code', text: code });
+    } else if (strong !== undefined) {
+      nodes.push({ type: 'strong', children: parseInline(strong) });
+    } else if (em !== undefined) {
+      nodes.push({ type: 'em', children: parseInline(em) });
+    } else if (SAFE_HREF.test(href)) {
+      nodes.push({ type: 'link', href, children: parseInline(linkText) });
+    } else {
+      nodes.push(...parseInline(linkText));
+    }
+    rest = rest.slice(match.index + whole.length);
+  }
+
+  return nodes;
+}
+
+const HEADING = /^(#{1,6})\s+(.*)$/;
+const UNORDERED_ITEM = /^\s*[-*+]\s+(.*)$/;
+const ORDERED_ITEM = /^\s*\d+[.)]\s+(.*)$/;
+const FENCE = /^\s*```/;
+
+export function parseMarkdown(source: string): MarkdownBlock[] {
+  const blocks: MarkdownBlock[] = [];
+  const lines = source.replace(/\r\n/g, '\n').split('\n');
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('\n')) });
+    paragraph = [];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (FENCE.test(line)) {
+      const end = lines.findIndex((candidate, j) => j > i && FENCE.test(candidate));
+      if (end !== -1) {
+        flushParagraph();
+        blocks.push({ type: 'code', text: lines.slice(i + 1, end).join('\n') });
+        i = end;
+        continue;
+      }
+    }
+
+    const heading = HEADING.exec(line);
+    if (heading) {
+      flushParagraph();
+      blocks.push({ type: 'heading', level: heading[1].length, children: parseInline(heading[2]) });
+      continue;
+    }
+
+    const unordered = UNORDERED_ITEM.exec(line);
+    const ordered = unordered ? null : ORDERED_ITEM.exec(line);
+    if (unordered || ordered) {
+      flushParagraph();
+      const isOrdered = ordered !== null;
+      const item = parseInline((unordered ?? ordered)![1]);
+      const last = blocks[blocks.length - 1];
+      if (last?.type === 'list' && last.ordered === isOrdered) {
+        last.items.push(item);
+      } else {
+        blocks.push({ type: 'list', ordered: isOrdered, items: [item] });
+      }
+      continue;
+    }
+
+    if (line.trim() === '') {
+      flushParagraph();
+      continue;
+    }
+    paragraph.push(line);
+  }
+
+  flushParagraph();
+  return blocks;
+}
@@ -0,0 +1,89 @@
+import { AppSettings } from '../types';
+
+export type MicrophoneSettings = Pick<AppSettings, 'micDeviceId' | 'echoCancellation' | 'noiseSuppression' | 'autoGainControl'>;
+
+export type MicrophoneErrorCode = 'permission-denied' | 'no-device' | 'device-in-use' | 'insecure-context' | 'unknown';
+
+// The code is what the UI translates; the message is only for the console
+export class MicrophoneError extends Error {
+  constructor(readonly code: MicrophoneErrorCode, readonly cause?: unknown) {
+    super(`Microphone unavailable: ${code}`);
+  }
+}
+
+// Names for the open microphone's state, in the interface language
+export interface MicrophoneLabels {
+  defaultDevice: string;
+  echoCancellation: string;
+  noiseSuppression: string;
+  autoGainControl: string;
+}
+
+export function buildAudioConstraints(settings: MicrophoneSettings): MediaTrackConstraints {
+  return {
+    deviceId: settings.micDeviceId ? { exact: settings.micDeviceId } : undefined,
+    echoCancellation: settings.echoCancellation,
+    noiseSuppression: settings.noiseSuppression,
+    autoGainControl: settings.autoGainControl,
+  };
+}
+
+/** Maps getUserMedia failures to something we can explain to the user. */
+export function toMicrophoneError(error: unknown): MicrophoneError {
+  if (error instanceof MicrophoneError) return error;
+  const name = (error as { name?: string } | null)?.name;
+  switch (name) {
+    case 'NotAllowedError':
+    case 'SecurityError':
+      return new MicrophoneError('permission-denied', error);
+    case 'NotFoundError':
+    case 'OverconstrainedError':
+      return new MicrophoneError('no-device', error);
+    case 'NotReadableError':
+    case 'AbortError':
+      return new MicrophoneError('device-in-use', error);
+    default:
+      return new MicrophoneError('unknown', error);
+  }
+}
+
+/**
+ * Opens the chosen microphone. A saved device that has since been unplugged falls
+ * back to the default one. Throws MicrophoneError.
+ */
+export async function openMicrophone(settings: MicrophoneSettings): Promise<MediaStream> {
+  if (!window.isSecureContext || !navigator.mediaDevices?.getUserMedia) {
+    throw new MicrophoneError(window.isSecureContext ? 'no-device' : 'insecure-context');
+  }
+
+  try {
+    return await navigator.mediaDevices.getUserMedia({ audio: buildAudioConstraints(settings) });
+  } catch (error) {
+    const mapped = toMicrophoneError(error);
+    if (mapped.code !== 'no-device' || !settings.micDeviceId) throw mapped;
+  }
+
+  try {
+    return await navigator.mediaDevices.getUserMedia({ audio: buildAudioConstraints({ ...settings, micDeviceId: '' }) });
+  } catch (error) {
+    throw toMicrophoneError(error);
+  }
+}
+
+/** Audio inputs; labels stay empty until the user has granted microphone access once. */
+export async function listMicrophones(): Promise<MediaDeviceInfo[]> {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter(device => device.kind === 'audioinput' && device.deviceId !== '');
+}
+
+/** One line describing the open microphone, for support diagnostics in the log. */
+export function describeMicrophone(stream: MediaStream, labels: MicrophoneLabels): string {
+  const track = stream.getAudioTracks()[0];
+  if (!track) return labels.defaultDevice;
+  const applied = track.getSettings();
+  const flags = (['echoCancellation', 'noiseSuppression', 'autoGainControl'] as const)
+    .filter(key => applied[key])
+    .map(key => labels[key].toLocaleLowerCase());
+  return `${track.label || labels.defaultDevice}${applied.sampleRate ? `, ${applied.sampleRate} Hz` : ''}${flags.length ? ` (${flags.join(', ')})` : ''}`;
+}
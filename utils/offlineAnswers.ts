@@ -0,0 +1,33 @@
+import { CatalogueItem, UiLanguage } from '../types';
+import { WASTE_CATALOGUE } from '../data/wasteCatalogue';
+import { findCatalogueItems, normalizeName } from './catalogue';
+
+export interface OfflineLookup {
+  match: CatalogueItem | null; // Only set when the query is one of the item's names or synonyms
+  candidates: CatalogueItem[]; // Close names for the user to pick from when there is no match
+}
+
+// Shorter queries match half the catalogue as substrings, so they get no suggestions
+const MIN_CANDIDATE_QUERY = 3;
+
+/**
+ * Looks a typed question up in the catalogue alone, for when the model cannot be reached.
+ * Without the model nothing can judge a fuzzy match, so only an exact name counts as an answer.
+ */
+export function lookupOffline(query: string, catalogue: CatalogueItem[] = WASTE_CATALOGUE): OfflineLookup {
+  const normalized = normalizeName(query);
+  if (!normalized) return { match: null, candidates: [] };
+
+  const match = catalogue.find(item =>
+    [...item.names.is, ...item.names.en].some(name => normalizeName(name) === normalized));
+  if (match) return { match, candidates: [] };
+
+  return {
+    match: null,
+    candidates: normalized.length >= MIN_CANDIDATE_QUERY ? findCatalogueItems(query, catalogue) : [],
+  };
+}
+
+/** Canonical name to show; the catalogue only has Icelandic and English names. */
+export const catalogueName = (item: CatalogueItem, language: UiLanguage): string =>
+  (language === 'is' ? item.names.is : item.names.en)[0];
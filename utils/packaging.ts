@@ -0,0 +1,31 @@
+import { PackagingComponent, PackagingVerdict, ProductPackaging } from '../types';
+import { PRODUCT_PACKAGING } from '../data/productPackaging';
+import { toGtin13 } from './barcode';
+
+/** Packaging for a scanned EAN-13 or UPC-A code, or null when the product is not in the table. */
+export function findProductPackaging(
+  barcode: string,
+  table: ProductPackaging[] = PRODUCT_PACKAGING,
+): ProductPackaging | null {
+  const gtin = toGtin13(barcode);
+  return table.find(product => product.gtin === gtin) ?? null;
+}
+
+export function packagingVerdictFromTable(product: ProductPackaging): PackagingVerdict {
+  return {
+    id: crypto.randomUUID(),
+    barcode: product.gtin,
+    productName: product.name,
+    components: product.components,
+    source: 'table',
+    confidence: 1,
+    timestamp: Date.now(),
+  };
+}
+
+/** One line per product for the model, e.g. "Flaska: Plast, Tappi: Plast, Miði: Almennt sorp". */
+export function describePackaging(components: PackagingComponent[]): string {
+  return components
+    .map(component => `${component.part}: ${component.category ?? 'gámastöð'}${component.category && component.takeToStation ? ' (eða gámastöð)' : ''}`)
+    .join(', ');
+}
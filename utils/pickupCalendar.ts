@@ -0,0 +1,51 @@
+import { PickupRule, WasteCategory } from '../types';
+import { PICKUP_SCHEDULE } from '../data/pickupSchedule';
+import { normalizeName } from './catalogue';
+import { addDays, daysBetween, getHoliday, weekdayOf } from './holidays';
+
+export interface PickupDate {
+  date: string; // Actual collection day, YYYY-MM-DD
+  scheduledDate: string; // Regular day before any holiday shift
+  movedForHoliday?: string; // Name of the holiday that moved the pickup
+}
+
+const isWorkingDay = (iso: string) => {
+  const weekday = weekdayOf(iso);
+  return weekday !== 0 && weekday !== 6 && !getHoliday(iso);
+};
+
+/** Pickups falling on a public holiday move to the next working day. */
+function resolvePickup(scheduledDate: string): PickupDate {
+  const holiday = getHoliday(scheduledDate);
+  if (!holiday || holiday.halfDay) return { date: scheduledDate, scheduledDate };
+
+  let date = addDays(scheduledDate, 1);
+  while (!isWorkingDay(date)) {
+    date = addDays(date, 1);
+  }
+  return { date, scheduledDate, movedForHoliday: holiday.name };
+}
+
+export function findPickupRule(
+  area: string,
+  category: WasteCategory,
+  schedule: PickupRule[] = PICKUP_SCHEDULE,
+): PickupRule | undefined {
+  const normalizedArea = normalizeName(area);
+  return schedule.find(rule => normalizeName(rule.area) === normalizedArea && rule.category === category);
+}
+
+/** The next `count` collections on or after `fromIso`, holiday shifts applied. */
+export function getNextPickups(rule: PickupRule, fromIso: string, count = 1): PickupDate[] {
+  const cycleDays = rule.intervalWeeks * 7;
+  // Start one cycle early: a pickup scheduled before `fromIso` may have been moved past it
+  let cycle = Math.floor(daysBetween(rule.anchorDate, fromIso) / cycleDays) - 1;
+
+  const pickups: PickupDate[] = [];
+  while (pickups.length < count) {
+    const pickup = resolvePickup(addDays(rule.anchorDate, cycle * cycleDays));
+    if (pickup.date >= fromIso) pickups.push(pickup);
+    cycle++;
+  }
+  return pickups;
+}
@@ -0,0 +1,11 @@
+/**
+ * Registers the `sw.js` written by the build so the app installs and opens offline. Only production builds
+ * register it; in development the cached shell would hide changes.
+ */
+export function registerServiceWorker(): void {
+  if (process.env.SERVICE_WORKER !== 'true' || !('serviceWorker' in navigator)) return;
+
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch(error => console.error('Service worker registration failed', error));
+  });
+}
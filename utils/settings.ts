@@ -0,0 +1,107 @@
+import { AppSettings, ConversationMode, ReplyLanguage, SpeakingStyle, UiLanguage } from '../types';
+
+const STORAGE_KEY = 'litla-sorpa:settings';
+
+export const VOICE_OPTIONS = ['Puck', 'Charon', 'Kore', 'Fenrir', 'Aoede', 'Leda', 'Orus', 'Zephyr'];
+
+export const MODEL_OPTIONS = [
+  'gemini-2.5-flash-native-audio-preview-12-2025',
+  'gemini-2.5-flash-native-audio-preview-09-2025',
+  'gemini-live-2.5-flash-preview',
+];
+
+// Native-audio models only answer in speech, so text mode always uses this one
+export const TEXT_MODE_MODEL = 'gemini-live-2.5-flash-preview';
+
+/** The model a session in `mode` actually runs on. */
+export const modelForMode = (model: string, mode: ConversationMode): string =>
+  mode === 'text' ? TEXT_MODE_MODEL : model;
+
+export const CAMERA_FRAME_RATE_OPTIONS = [0.5, 1, 2];
+
+export const IDLE_TIMEOUT_OPTIONS = [2, 5, 10, 0]; // Minutes; 0 turns the idle timeout off
+
+// Ephemeral tokens let a session run for 30 minutes, so that is the ceiling here
+export const MAX_SESSION_OPTIONS = [10, 20, 30];
+
+export const LANGUAGE_LABELS: Record<ReplyLanguage, string> = {
+  is: 'Íslenska',
+  en: 'English',
+  pl: 'Polski',
+};
+
+export const SPEAKING_STYLES: SpeakingStyle[] = ['friendly', 'concise', 'detailed'];
+
+export const UI_LANGUAGES: UiLanguage[] = ['is', 'en', 'pl'];
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  voiceName: 'Puck', // Friendly voice
+  replyLanguage: 'is',
+  speakingStyle: 'friendly',
+  model: MODEL_OPTIONS[0],
+  cameraFrameRate: 1,
+  useLocation: false,
+  idleTimeoutMinutes: 5,
+  maxSessionMinutes: 20,
+  micDeviceId: '',
+  echoCancellation: true,
+  noiseSuppression: true,
+  autoGainControl: true,
+  uiLanguage: 'auto',
+  multiItemPhotos: true,
+};
+
+const isOneOf = <T extends string>(value: unknown, options: readonly T[]): value is T =>
+  typeof value === 'string' && (options as readonly string[]).includes(value);
+
+/** Fills in defaults for anything missing or invalid, e.g. in stored or posted settings. */
+export function parseSettings(stored: Partial<AppSettings>): AppSettings {
+  return {
+    voiceName: isOneOf(stored.voiceName, VOICE_OPTIONS) ? stored.voiceName : DEFAULT_SETTINGS.voiceName,
+    replyLanguage: isOneOf(stored.replyLanguage, Object.keys(LANGUAGE_LABELS) as ReplyLanguage[])
+      ? stored.replyLanguage
+      : DEFAULT_SETTINGS.replyLanguage,
+    speakingStyle: isOneOf(stored.speakingStyle, SPEAKING_STYLES)
+      ? stored.speakingStyle
+      : DEFAULT_SETTINGS.speakingStyle,
+    model: isOneOf(stored.model, MODEL_OPTIONS) ? stored.model : DEFAULT_SETTINGS.model,
+    cameraFrameRate: CAMERA_FRAME_RATE_OPTIONS.includes(stored.cameraFrameRate as number)
+      ? stored.cameraFrameRate as number
+      : DEFAULT_SETTINGS.cameraFrameRate,
+    useLocation: typeof stored.useLocation === 'boolean' ? stored.useLocation : DEFAULT_SETTINGS.useLocation,
+    idleTimeoutMinutes: IDLE_TIMEOUT_OPTIONS.includes(stored.idleTimeoutMinutes as number)
+      ? stored.idleTimeoutMinutes as number
+      : DEFAULT_SETTINGS.idleTimeoutMinutes,
+    maxSessionMinutes: MAX_SESSION_OPTIONS.includes(stored.maxSessionMinutes as number)
+      ? stored.maxSessionMinutes as number
+      : DEFAULT_SETTINGS.maxSessionMinutes,
+    micDeviceId: typeof stored.micDeviceId === 'string' ? stored.micDeviceId : DEFAULT_SETTINGS.micDeviceId,
+    echoCancellation: typeof stored.echoCancellation === 'boolean' ? stored.echoCancellation : DEFAULT_SETTINGS.echoCancellation,
+    noiseSuppression: typeof stored.noiseSuppression === 'boolean' ? stored.noiseSuppression : DEFAULT_SETTINGS.noiseSuppression,
+    autoGainControl: typeof stored.autoGainControl === 'boolean' ? stored.autoGainControl : DEFAULT_SETTINGS.autoGainControl,
+    uiLanguage: stored.uiLanguage === 'auto' || isOneOf(stored.uiLanguage, UI_LANGUAGES)
+      ? stored.uiLanguage
+      : DEFAULT_SETTINGS.uiLanguage,
+    multiItemPhotos: typeof stored.multiItemPhotos === 'boolean' ? stored.multiItemPhotos : DEFAULT_SETTINGS.multiItemPhotos,
+  };
+}
+
+/** Reads settings from localStorage, falling back to defaults for anything missing or invalid. */
+export function loadSettings(): AppSettings {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return DEFAULT_SETTINGS;
+    return parseSettings(JSON.parse(raw) as Partial<AppSettings>);
+  } catch (error) {
+    console.error('Failed to read settings', error);
+    return DEFAULT_SETTINGS;
+  }
+}
+
+export function saveSettings(settings: AppSettings): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error('Failed to save settings', error);
+  }
+}
@@ -0,0 +1,67 @@
+import { GeoPoint, OpeningSpan, RecyclingStation, StationMatch, StationMaterial } from '../types';
+import { RECYCLING_STATIONS } from '../data/recyclingStations';
+import { getHoliday, toIsoDate } from './holidays';
+
+export interface StationQuery {
+  now: Date;
+  material?: StationMaterial;
+  openNow?: boolean;
+  near?: GeoPoint | null;
+  limit?: number;
+}
+
+/** Great-circle distance in kilometres (haversine). */
+export function distanceKm(a: GeoPoint, b: GeoPoint): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(b.latitude - a.latitude);
+  const dLon = toRad(b.longitude - a.longitude);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.latitude)) * Math.cos(toRad(b.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 6371 * 2 * Math.asin(Math.sqrt(h));
+}
+
+/** Opening hours on a given day, with holiday overrides applied. */
+export function getHoursOn(station: RecyclingStation, date: Date): { hours: OpeningSpan | null; holidayName?: string } {
+  const holiday = getHoliday(toIsoDate(date));
+  if (holiday) {
+    return { hours: station.holidayHours[holiday.name] ?? null, holidayName: holiday.name };
+  }
+  return { hours: station.hours[date.getUTCDay()] };
+}
+
+// Iceland uses UTC, so the UTC clock is the local wall clock
+const clockOf = (date: Date) =>
+  `${String(date.getUTCHours()).padStart(2, '0')}:${String(date.getUTCMinutes()).padStart(2, '0')}`;
+
+export function isStationOpen(station: RecyclingStation, date: Date): boolean {
+  const { hours } = getHoursOn(station, date);
+  if (!hours) return false;
+  const clock = clockOf(date);
+  return clock >= hours.open && clock < hours.close;
+}
+
+/**
+ * Stations matching a material and/or open-now filter, nearest first when a
+ * location is known, otherwise open stations first.
+ */
+export function findStations(query: StationQuery, stations: RecyclingStation[] = RECYCLING_STATIONS): StationMatch[] {
+  const matches: StationMatch[] = stations
+    .filter(station => !query.material || station.materials.includes(query.material))
+    .map(station => {
+      const { hours, holidayName } = getHoursOn(station, query.now);
+      return {
+        station,
+        isOpen: isStationOpen(station, query.now),
+        todayHours: hours,
+        holidayName,
+        distanceKm: query.near ? distanceKm(query.near, station) : undefined,
+      };
+    })
+    .filter(match => !query.openNow || match.isOpen);
+
+  matches.sort((a, b) => {
+    if (a.distanceKm !== undefined && b.distanceKm !== undefined) return a.distanceKm - b.distanceKm;
+    return Number(b.isOpen) - Number(a.isOpen);
+  });
+
+  return matches.slice(0, query.limit ?? matches.length);
+}
@@ -0,0 +1,78 @@
+import { ConversationRecord, LogMessage } from '../types';
+import { describePackaging } from './packaging';
+
+const SPEAKER_LABELS: Record<LogMessage['type'], string> = {
+  user: 'Notandi',
+  model: 'Litla Sorpa',
+  system: 'Kerfi',
+};
+
+const formatDateTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString('is-IS', { dateStyle: 'long', timeStyle: 'short' });
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString('is-IS', { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+// Keeps model-written text from breaking out of a Markdown table cell.
+const tableCell = (text: string) => text.replace(/\|/g, '\\|').replace(/\s*[\r\n]+\s*/g, ' ');
+
+export function conversationToJson(record: ConversationRecord): string {
+  return JSON.stringify(record, null, 2);
+}
+
+/** Readable Icelandic transcript, e.g. for customer-service lookups. */
+export function conversationToMarkdown(record: ConversationRecord): string {
+  const lines: string[] = [
+    '# Samtal við Litlu Sorpu',
+    '',
+    `- Hófst: ${formatDateTime(record.startedAt)}`,
+    `- Lauk: ${record.endedAt ? formatDateTime(record.endedAt) : 'Óþekkt'}`,
+    `- Líkan: ${record.model}`,
+    `- Auðkenni: ${record.id}`,
+    '',
+    '## Samtal',
+    '',
+  ];
+
+  for (const log of record.logs) {
+    const line = `[${formatTime(log.timestamp)}] ${SPEAKER_LABELS[log.type]}: ${log.text}`;
+    lines.push(log.type === 'system' ? `_${line}_` : `**${line}**`, '');
+  }
+
+  if (record.verdicts.length > 0) {
+    lines.push('## Flokkanir', '', '| Tími | Hlutur | Flokkur | Vissa | Undirbúningur |', '| --- | --- | --- | --- | --- |');
+    for (const verdict of [...record.verdicts].sort((a, b) => a.timestamp - b.timestamp)) {
+      const category = verdict.category ?? 'Gámastöð';
+      const preparation = tableCell(verdict.preparation.join('; ')) || '-';
+      lines.push(`| ${formatTime(verdict.timestamp)} | ${tableCell(verdict.itemName)} | ${category} | ${Math.round(verdict.confidence * 100)}% | ${preparation} |`);
+    }
+    lines.push('');
+  }
+
+  const packaging = record.packaging ?? [];
+  if (packaging.length > 0) {
+    lines.push('## Strikamerki', '', '| Tími | Vara | Strikamerki | Umbúðir | Uppruni |', '| --- | --- | --- | --- | --- |');
+    for (const verdict of [...packaging].sort((a, b) => a.timestamp - b.timestamp)) {
+      const source = verdict.source === 'table' ? 'Vöruskrá' : `Líkan, ${Math.round(verdict.confidence * 100)}%`;
+      lines.push(`| ${formatTime(verdict.timestamp)} | ${tableCell(verdict.productName)} | ${verdict.barcode} | ${tableCell(describePackaging(verdict.components))} | ${source} |`);
+    }
+    lines.push('');
+  }
+
+  if (record.images.length > 0) {
+    lines.push('## Myndir', '');
+    record.images.forEach(image => lines.push(`- [${formatTime(image.timestamp)}] ${image.mimeType}`));
+    lines.push('');
+  }
+
+  return lines.join('\n');
+}
+
+export function downloadFile(filename: string, content: string, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,54 @@
+export interface VadOptions {
+  startThreshold: number; // RMS level that opens speech
+  stopThreshold: number; // RMS level below which speech may end (hysteresis)
+  hangoverMs: number; // How long the level must stay low before speech ends
+}
+
+export const DEFAULT_VAD_OPTIONS: VadOptions = {
+  startThreshold: 0.02,
+  stopThreshold: 0.01,
+  hangoverMs: 700,
+};
+
+export type VadEvent = 'start' | 'end' | null;
+
+/**
+ * Energy-based voice activity detector fed with per-chunk RMS levels.
+ * Emits 'start' when the level rises above `startThreshold` and 'end' once it has
+ * stayed below `stopThreshold` for `hangoverMs`.
+ */
+export class VoiceActivityDetector {
+  private speaking = false;
+  private quietMs = 0;
+  private readonly options: VadOptions;
+
+  constructor(options: Partial<VadOptions> = {}) {
+    this.options = { ...DEFAULT_VAD_OPTIONS, ...options };
+  }
+
+  process(rms: number, durationMs: number): VadEvent {
+    const { startThreshold, stopThreshold, hangoverMs } = this.options;
+
+    if (!this.speaking) {
+      if (rms >= startThreshold) {
+        this.speaking = true;
+        this.quietMs = 0;
+        return 'start';
+      }
+      return null;
+    }
+
+    if (rms >= stopThreshold) {
+      this.quietMs = 0;
+      return null;
+    }
+
+    this.quietMs += durationMs;
+    if (this.quietMs >= hangoverMs) {
+      this.speaking = false;
+      this.quietMs = 0;
+      return 'end';
+    }
+    return null;
+  }
+}
@@ -1,18 +1,46 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import fs from 'fs';
+import { createHash } from 'crypto';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// Files in public/ are copied as they are and never show up in the bundle
+const PUBLIC_FILES = ['/manifest.webmanifest', '/icon.svg'];
+
+/**
+ * Writes sw.js with the list of every built file filled in, so the service worker
+ * caches the whole app on install instead of only what a later visit happens to load.
+ */
+function precacheServiceWorker(): Plugin {
+  return {
+    name: 'precache-service-worker',
+    apply: 'build',
+    generateBundle(_options, bundle) {
+      const files = [...new Set(['/', '/index.html', ...PUBLIC_FILES, ...Object.keys(bundle).map(fileName => `/${fileName}`)])];
+      const buildId = createHash('sha256').update(files.join('\n')).digest('hex').slice(0, 12);
+      const source = fs.readFileSync(path.resolve(__dirname, 'sw.js'), 'utf8')
+        .replace('self.__PRECACHE_FILES__', JSON.stringify(files))
+        .replace('self.__BUILD_ID__', JSON.stringify(buildId));
+      this.emitFile({ type: 'asset', fileName: 'sw.js', source });
+    },
+  };
+}
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy: {
+          // Token server from `npm run server`; the API key only lives there
+          '/api': `http://localhost:${env.TOKEN_SERVER_PORT || 8787}`,
+        },
       },
-      plugins: [react()],
+      plugins: [react(), precacheServiceWorker()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.LIVE_TOKEN_URL': JSON.stringify(env.LIVE_TOKEN_URL || ''),
+        'process.env.SERVICE_WORKER': JSON.stringify(String(mode === 'production')),
       },
       resolve: {
         alias: {